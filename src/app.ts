@@ -2,8 +2,11 @@ import "reflect-metadata" // allows the decorator to work
 import express from "express"
 import "./controllers/User.controller"
 import "./controllers/Spotify.controller"
+import "./controllers/SpotifyPlayer.controller"
 import "./controllers/Set.controller"
 import "./controllers/AuthX.controller"
+import "./controllers/Search.controller"
+import "./controllers/ListeningRoom.controller"
 import "./infra/redis"
 
 // This is the dependency injection container that will allow us to retrieve and resolve some instances from the Dependency Injection container
@@ -11,22 +14,35 @@ import { Container } from "inversify"
 import { InversifyExpressServer } from "inversify-express-utils"
 import cors from "cors"
 import cookieParser from "cookie-parser"
-import { AuthMiddleware } from "./middleware/Auth.middleware";
+import { AuthMiddleware, OptionalAuthMiddleware } from "./middleware/Auth.middleware";
 import UserRepository from "./repos/User.repository"
 import UserService from "./services/User.service"
 import SpotifyService from "./services/Spotify.service"
+import SpotifyApiService from "./services/SpotifyApi.service"
+import SpotifyPlayerService from "./services/SpotifyPlayer.service"
+import SpotifyPlaylistService from "./services/SpotifyPlaylist.service"
 import SpotifyTokenRepository from "./repos/SpotifyToken.repository"
+import TempPlaylistRepository from "./repos/TempPlaylist.repository"
+import SpotifyPlaylistLinkRepository from "./repos/SpotifyPlaylistLink.repository"
 import SetService from "./services/Set.service"
 import SetRepository from "./repos/Set.repository"
+import SetVersionRepository from "./repos/SetVersion.repository"
+import CollaboratorService from "./services/Collaborator.service"
 import TrackServiceCache from './services/TrackCache.service'
 import AuthTokenService from "./services/AuthToken.service"
 import EmailService from "./services/Email.service"
+import SearchService from "./services/Search.service"
+import SessionService from "./services/Session.service"
+import SessionRepository from "./repos/Session.repository"
+import OneTimeTokenRepository from "./repos/OneTimeToken.repository"
+import ListeningRoomService from "./services/ListeningRoom.service"
+import ListeningRoomRepository from "./repos/ListeningRoom.repository"
 
 const app = express()
 
 const allowedOrigins = [process.env.APP_ORIGIN || "http://localhost:3000", "https://auraandvibes.com"];
 
-app.use(cors({ origin: allowedOrigins, credentials: true })) // if needed for cookies/auth
+app.use(cors({ origin: allowedOrigins, credentials: true, exposedHeaders: ["ETag"] })) // if needed for cookies/auth; ETag carries the set version
 app.use(express.json())
 app.use(cookieParser())
 app.set('trust proxy', 1)
@@ -34,15 +50,32 @@ app.set('trust proxy', 1)
 const container = new Container({ defaultScope: "Singleton" })
 
 container.bind(AuthMiddleware).toSelf()
+container.bind(OptionalAuthMiddleware).toSelf()
 container.bind(UserRepository).toSelf()
 container.bind(UserService).toSelf()
 container.bind(SpotifyService).toSelf()
+container.bind(SpotifyApiService).toSelf()
+container.bind(SpotifyPlayerService).toSelf()
+container.bind(SpotifyPlaylistService).toSelf()
 container.bind(SpotifyTokenRepository).toSelf()
+container.bind(TempPlaylistRepository).toSelf()
+container.bind(SpotifyPlaylistLinkRepository).toSelf()
 container.bind(SetService).toSelf()
 container.bind(SetRepository).toSelf()
+container.bind(SetVersionRepository).toSelf()
+container.bind(CollaboratorService).toSelf()
 container.bind(TrackServiceCache).toSelf()
 container.bind(AuthTokenService).toSelf()
+container.bind(SessionService).toSelf()
+container.bind(SessionRepository).toSelf()
+container.bind(OneTimeTokenRepository).toSelf()
 container.bind(EmailService).toSelf()
+container.bind(SearchService).toSelf()
+container.bind(ListeningRoomService).toSelf()
+container.bind(ListeningRoomRepository).toSelf()
+
+// fail at boot (not on the first login) when production still has the dev JWT secret
+container.get(AuthTokenService)
 
 let server = new InversifyExpressServer(
   container,
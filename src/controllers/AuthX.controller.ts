@@ -8,13 +8,15 @@ import { redisClient } from "../infra/redis";
 import { makeCodeVerifier, makeCodeChallengeS256, makeState } from "../utils/pkce";
 
 import AuthTokenService from "../services/AuthToken.service";
+import SessionService from "../services/Session.service";
+import { isPlaceholderEmail } from "../services/User.service";
 
 const STATE_PREFIX = "x_oauth_state:";
 const STATE_TTL = 10 * 60; // 10 min
 
 @controller("/user/auth/x")
 export default class AuthXController implements interfaces.Controller {
-  constructor(private auth: AuthTokenService) { }
+  constructor(private auth: AuthTokenService, private sessions: SessionService) { }
 
   // Frontend calls this to get an authorize URL (and we store PKCE+state in Redis)
   @httpPost("/start")
@@ -117,20 +119,17 @@ export default class AuthXController implements interfaces.Controller {
 
       // If user isn’t email-verified (likely, since X provides no email), ask FE to collect email/verify.
       if (!user.emailVerified) {
-        // Don’t set session cookie. Redirect back with state for FE to act on.
+        // No session yet: the gv_pending cookie only allows POST /user/auth/email and
+        // /user/auth/resend-verification. Redirect back with state for FE to act on.
+        this.auth.setPendingCookie(res, this.auth.makePendingVerificationToken(user._id.toString()));
         const dest = new URL(redirect || process.env.APP_ORIGIN || "http://localhost:3000");
         dest.pathname = "/login";
-        dest.searchParams.set("notice", "needs-email");
-        // You might pass a short-lived token that only allows adding email+verify if you want.
+        dest.searchParams.set("notice", isPlaceholderEmail(user.email) ? "needs-email" : "verify-email");
         return res.redirect(dest.toString());
       }
 
       // User verified → issue httpOnly cookie and send home
-      const jwt = this.auth.makeSessionToken(
-        { sub: user._id, username: user.username, plan: user.plan },
-        true
-      );
-      this.auth.setSessionCookie(res, jwt, true);
+      await this.sessions.start(req, res, user, true);
 
       const dest = new URL(redirect || process.env.APP_ORIGIN || "http://localhost:3000");
       dest.pathname = "/dashboard";
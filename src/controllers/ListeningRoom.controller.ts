@@ -0,0 +1,146 @@
+// src/controllers/ListeningRoom.controller.ts
+import "reflect-metadata";
+import { Request, Response } from "express";
+import { controller, httpDelete, httpGet, httpPost, interfaces } from "inversify-express-utils";
+import { AuthMiddleware } from "../middleware/Auth.middleware";
+import ListeningRoomService from "../services/ListeningRoom.service";
+import { eventStream } from "../utils/sse";
+
+//// SCHEMAS AND INTERFACES
+import { CreateRoomSchema, RoomControlSchema, RoomDeviceSchema } from "../interfaces/room.interface";
+
+// unlisted sets are joinable through ?share=<token> links
+function shareToken(req: Request): string | undefined {
+  const v = req.query.share;
+  return typeof v === "string" && v.length > 0 ? v : undefined;
+}
+
+@controller("/rooms")
+export default class ListeningRoomController implements interfaces.Controller {
+  constructor(private rooms: ListeningRoomService) { }
+
+  // POST /rooms[?share=<token>]  Body: { setId, startIndex?, deviceId? }
+  // Host opens a listening room for a set; playback starts on the host's player.
+  @httpPost("/", AuthMiddleware)
+  async create(req: Request, res: Response) {
+    try {
+      const body = await CreateRoomSchema.parseAsync(req.body || {});
+      const room = await this.rooms.create(req.user!.id, body.setId, body, shareToken(req));
+      return res.status(201).json(room);
+    } catch (err: any) {
+      return ListeningRoomController.sendError(res, err, "Create room failed");
+    }
+  }
+
+  @httpGet("/:roomId", AuthMiddleware)
+  async get(req: Request, res: Response) {
+    try {
+      return res.json(await this.rooms.get(req.params.roomId, req.user!.id));
+    } catch (err: any) {
+      return ListeningRoomController.sendError(res, err, "Failed to load room");
+    }
+  }
+
+  // POST /rooms/:roomId/join[?share=<token>]  Body: { deviceId? }
+  @httpPost("/:roomId/join", AuthMiddleware)
+  async join(req: Request, res: Response) {
+    try {
+      const body = await RoomDeviceSchema.parseAsync(req.body || {});
+      return res.json(await this.rooms.join(req.params.roomId, req.user!.id, body, shareToken(req)));
+    } catch (err: any) {
+      return ListeningRoomController.sendError(res, err, "Join failed");
+    }
+  }
+
+  // POST /rooms/:roomId/sync  Body: { deviceId? } — re-align the caller's player with the room
+  @httpPost("/:roomId/sync", AuthMiddleware)
+  async sync(req: Request, res: Response) {
+    try {
+      const body = await RoomDeviceSchema.parseAsync(req.body || {});
+      return res.json(await this.rooms.sync(req.params.roomId, req.user!.id, body));
+    } catch (err: any) {
+      return ListeningRoomController.sendError(res, err, "Sync failed");
+    }
+  }
+
+  // POST /rooms/:roomId/leave — when the host leaves the room is closed
+  @httpPost("/:roomId/leave", AuthMiddleware)
+  async leave(req: Request, res: Response) {
+    try {
+      return res.json(await this.rooms.leave(req.params.roomId, req.user!.id));
+    } catch (err: any) {
+      return ListeningRoomController.sendError(res, err, "Leave failed");
+    }
+  }
+
+  // POST /rooms/:roomId/control  (host)
+  // Body: { action: "play" | "pause" | "next" | "previous" } | { action: "seek", positionMs } | { action: "track", index, positionMs? }
+  @httpPost("/:roomId/control", AuthMiddleware)
+  async control(req: Request, res: Response) {
+    try {
+      const body = await RoomControlSchema.parseAsync(req.body || {});
+      return res.json(await this.rooms.control(req.params.roomId, req.user!.id, body));
+    } catch (err: any) {
+      return ListeningRoomController.sendError(res, err, "Room control failed");
+    }
+  }
+
+  // POST /rooms/:roomId/follow-host  (host) — adopt what the host's Spotify player is doing
+  // (e.g. after skipping in the Spotify app) and move the listeners there
+  @httpPost("/:roomId/follow-host", AuthMiddleware)
+  async followHost(req: Request, res: Response) {
+    try {
+      return res.json(await this.rooms.followHost(req.params.roomId, req.user!.id));
+    } catch (err: any) {
+      return ListeningRoomController.sendError(res, err, "Follow host failed");
+    }
+  }
+
+  @httpDelete("/:roomId", AuthMiddleware)
+  async close(req: Request, res: Response) {
+    try {
+      return res.json(await this.rooms.close(req.params.roomId, req.user!.id));
+    } catch (err: any) {
+      return ListeningRoomController.sendError(res, err, "Close room failed");
+    }
+  }
+
+  // GET /rooms/:roomId/events — Server-Sent Events for members: a `state` event first, then
+  // member.joined / member.left / playback / sync.failed / room.closed.
+  @httpGet("/:roomId/events", AuthMiddleware)
+  async events(req: Request, res: Response) {
+    const stream = eventStream(res, ["room.closed"]);
+    try {
+      stream.keepAlive(await this.rooms.events(req.params.roomId, req.user!.id, stream.send));
+    } catch (err: any) {
+      if (!res.headersSent) return ListeningRoomController.sendError(res, err, "Failed to open event stream");
+      res.end();
+    }
+  }
+
+  private static sendError(res: Response, err: any, fallback: string) {
+    if (err?.issues) {
+      return res.status(400).json({
+        error: "ValidationError",
+        issues: err.issues.map((i: any) => ({ path: i.path.join("."), message: i.message })),
+      });
+    }
+    switch (err?.message) {
+      case "Forbidden":
+      case "Not a room member": return res.status(403).json({ error: err.message });
+      case "Room not found":
+      case "Set not found": return res.status(404).json({ error: err.message });
+      case "Set has no songs":
+      case "Already at the last track":
+      case "Track index out of range": return res.status(400).json({ error: err.message });
+      case "Host is not playing a track from this room":
+      case "Room is busy, try again": return res.status(409).json({ error: err.message });
+      case "No tokens stored for user": return res.status(400).json({ error: "Spotify account not connected" });
+      case "Spotify reconnect required": return res.status(400).json({ error: err.message, reconnect: true });
+    }
+    if (err?.status) return res.status(502).json({ error: fallback, details: err.details });
+    console.error(fallback, err);
+    return res.status(500).json({ error: err?.message ?? fallback });
+  }
+
+}
@@ -0,0 +1,32 @@
+import "reflect-metadata";
+import { Request, Response } from "express";
+import { controller, httpGet, interfaces } from "inversify-express-utils";
+import SearchService from "../services/Search.service";
+
+//// SCHEMAS AND INTERFACES
+import { CatalogSearchQuerySchema } from "../interfaces/search.interface";
+
+@controller("/search")
+export default class SearchController implements interfaces.Controller {
+  constructor(private search: SearchService) { }
+
+  // GET /search?q=...&type=all|sets|tracks&limit=10
+  // Searches our own sets (name, description, tags, song titles/artists) and cached tracks.
+  @httpGet("/")
+  async find(req: Request, res: Response) {
+    try {
+      const query = await CatalogSearchQuerySchema.parseAsync(req.query);
+      const result = await this.search.search(query);
+      return res.json(result);
+    } catch (err: any) {
+      if (err?.issues) {
+        return res.status(400).json({
+          error: "ValidationError",
+          issues: err.issues.map((i: any) => ({ path: i.path.join("."), message: i.message })),
+        });
+      }
+      console.error("Search error", err);
+      return res.status(500).json({ error: err?.message ?? "Search failed" });
+    }
+  }
+}
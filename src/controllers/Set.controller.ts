@@ -2,29 +2,60 @@
 import "reflect-metadata";
 import { Request, Response } from "express";
 import { controller, httpPost, httpDelete, httpPatch, httpGet, interfaces } from "inversify-express-utils";
-import { AuthMiddleware } from "../middleware/Auth.middleware";
+import { AuthMiddleware, OptionalAuthMiddleware } from "../middleware/Auth.middleware";
 import SetService from "../services/Set.service";
-import SpotifyService from "../services/Spotify.service";
-import { redisClient } from "../infra/redis";
+import CollaboratorService from "../services/Collaborator.service";
+import { eventStream } from "../utils/sse";
 
 //// SCHEMAS AND INTERFACES
 import { CreateSetSchema } from "../interfaces/set.interface";
-import { AddSongsSchema } from "../interfaces/setEdit.interface";
+import { AddSongsSchema, AddTagsSchema, RemoveSongSchema, RemoveSongsSchema, RemoveTagsSchema, ReorderSongSchema } from "../interfaces/setEdit.interface";
 import { ReplaceSongsSchema } from "../interfaces/replaceSongs.interface";
 import { UpdateSetSchema } from "../interfaces/set.update.interface";
-import { Set } from "../models/set.model";
-
-type RemoveSongsBody = { songs: string[] };
-
-const TEMP_PLAYLIST_PREFIX = "spotify_temp_playlist:"; // per-app-user temp playlist id (Redis)
-// Keep temporary playlist reference for several days so we can clean up & replace it later.
-// Previously 6 hours — that expired overnight and the old playlist id was lost.
-// Use 7 days (in seconds) to allow replacing the temp playlist across days.
-const TEMP_PLAYLIST_TTL = 60 * 60 * 24 * 7; // 7 days
+import { CreateSuggestionSchema, ListSuggestionsQuerySchema } from "../interfaces/suggestion.interface";
+import { ListSetsQuerySchema } from "../interfaces/setList.interface";
+import { PaginationQuerySchema } from "../interfaces/pagination.interface";
+import { VersionDiffQuerySchema, VersionParamSchema } from "../interfaces/setHistory.interface";
+import { InviteCollaboratorSchema, UpdateCollaboratorRoleSchema } from "../interfaces/collaborator.interface";
+import { QueueSetSchema } from "../interfaces/queue.interface";
+import { ImportSetSchema, SaveToSpotifySchema, SyncFromSpotifySchema } from "../interfaces/spotifyPlaylist.interface";
+
+// Optimistic concurrency: clients send the version they edited from as
+// If-Match: "12" (the ETag we return) or { version: 12 } in the body.
+function expectedVersion(req: Request): number | undefined {
+  const header = (req.headers["if-match"] as string | undefined)?.trim();
+  if (header && header !== "*") {
+    const n = Number(header.replace(/^W\//, "").replace(/"/g, ""));
+    if (!Number.isInteger(n) || n < 0) throw new Error("Invalid If-Match");
+    return n;
+  }
+  const v = req.body?.version;
+  if (v === undefined || v === null) return undefined;
+  if (!Number.isInteger(v) || v < 0) throw new Error("Invalid version");
+  return v;
+}
+
+function setETag(res: Response, version: number | undefined) {
+  if (version !== undefined) res.setHeader("ETag", `"${version}"`);
+}
+
+// unlisted sets are readable through ?share=<token> links
+function shareToken(req: Request): string | undefined {
+  const v = req.query.share;
+  return typeof v === "string" && v.length > 0 ? v : undefined;
+}
+
+// 409 with the current state so the client can merge and retry
+function sendConflict(res: Response, err: any) {
+  if (err?.message !== "Version conflict") return false;
+  setETag(res, err.current?.version ?? 0);
+  res.status(409).json({ error: "Version conflict", version: err.current?.version ?? 0, current: err.current });
+  return true;
+}
 
 @controller("/sets")
 export default class SetController implements interfaces.Controller {
-  constructor(private set: SetService, private spotify: SpotifyService) { }
+  constructor(private set: SetService, private collaborators: CollaboratorService) { }
 
   @httpPost("/create", AuthMiddleware)
   async create(req: Request, res: Response) {
@@ -54,6 +85,34 @@ export default class SetController implements interfaces.Controller {
 
   }
 
+  // POST /sets/import  Body: { source: "<playlist/album URL or URI>", name?, description?, tags?, visibility? }
+  // Creates a set from a Spotify playlist or album (up to 1000 tracks) using the caller's Spotify token.
+  @httpPost("/import", AuthMiddleware)
+  async importSet(req: Request, res: Response) {
+    try {
+      const body = await ImportSetSchema.parseAsync(req.body || {});
+      const result = await this.set.importSet(req.user!.id, body);
+      return res.status(201).json(result);
+    } catch (err: any) {
+      if (err?.issues) {
+        return res.status(400).json({
+          error: "ValidationError",
+          issues: err.issues.map((i: any) => ({ path: i.path.join("."), message: i.message })),
+        });
+      }
+      switch (err?.message) {
+        case "Unsupported Spotify link": return res.status(400).json({ error: err.message });
+        case "Nothing to import": return res.status(422).json({ error: err.message });
+        case "No tokens stored for user": return res.status(400).json({ error: "Spotify account not connected" });
+        case "Spotify reconnect required": return res.status(400).json({ error: err.message, reconnect: true });
+      }
+      if (err?.status === 404) return res.status(404).json({ error: "Spotify playlist or album not found" });
+      if (err?.status) return res.status(502).json({ error: "Spotify import failed", details: err.details });
+      console.error("Import set error", err);
+      return res.status(500).json({ error: err?.message ?? "Import failed" });
+    }
+  }
+
   @httpPost("/:setId/songs", AuthMiddleware)
   async addSongs(req: Request, res: Response) {
 
@@ -62,12 +121,14 @@ export default class SetController implements interfaces.Controller {
       const { setId } = req.params;
       const userId = req.user!.id;
       console.log("Adding songs", { setId, userId, songs: body.songs });
-      const result = await this.set.addSongs(setId, userId, body.songs);
+      const result = await this.set.addSongs(setId, userId, body.songs, expectedVersion(req));
+      setETag(res, result.version);
       res.json(result);
     } catch (err: any) {
       if (err?.issues) {
         return res.status(400).json({ error: "ValidationError", issues: err.issues });
       }
+      if (sendConflict(res, err)) return;
       const status = err?.message === "Forbidden" ? 403 : err?.message === "Set not found" ? 404 : 400;
       return res.status(status).json({ error: err.message ?? "Add songs failed" });
     }
@@ -84,17 +145,109 @@ export default class SetController implements interfaces.Controller {
       // normalize to array of ids
       const songIds = (body.songs || []).map((s: any) => (typeof s === "string" ? s : s.id));
 
-      const result = await this.set.replaceSongs(setId, userId, songIds);
+      const result = await this.set.replaceSongs(setId, userId, songIds, undefined, expectedVersion(req));
+      setETag(res, result.version);
       res.json(result);
     } catch (err: any) {
       if (err?.issues) {
         return res.status(400).json({ error: "ValidationError", issues: err.issues });
       }
+      if (sendConflict(res, err)) return;
       const status = err?.message === "Forbidden" ? 403 : err?.message === "Set not found" ? 404 : 400;
       return res.status(status).json({ error: err.message ?? "Replace songs failed" });
     }
   }
 
+  // DELETE /sets/:setId/songs  Body: { songs: string[] }
+  @httpDelete("/:setId/songs", AuthMiddleware)
+  async removeSongs(req: Request, res: Response) {
+    try {
+      const body = await RemoveSongsSchema.parseAsync(req.body);
+      const result = await this.set.removeSongs(req.params.setId, req.user!.id, body.songs, expectedVersion(req));
+      setETag(res, result.version);
+      return res.json(result);
+    } catch (err: any) {
+      if (err?.issues) {
+        return res.status(400).json({ error: "ValidationError", issues: err.issues });
+      }
+      if (sendConflict(res, err)) return;
+      const status = err?.message === "Forbidden" ? 403 : err?.message === "Set not found" ? 404 : 400;
+      return res.status(status).json({ error: err.message ?? "Remove songs failed" });
+    }
+  }
+
+  // DELETE /sets/:setId/songs/:trackId
+  @httpDelete("/:setId/songs/:trackId", AuthMiddleware)
+  async removeSong(req: Request, res: Response) {
+    try {
+      const { trackId } = await RemoveSongSchema.parseAsync(req.params);
+      const result = await this.set.removeSongs(req.params.setId, req.user!.id, [trackId], expectedVersion(req));
+      setETag(res, result.version);
+      return res.json(result);
+    } catch (err: any) {
+      if (err?.issues) {
+        return res.status(400).json({ error: "ValidationError", issues: err.issues });
+      }
+      if (sendConflict(res, err)) return;
+      const status = err?.message === "Forbidden" ? 403 : err?.message === "Set not found" ? 404 : 400;
+      return res.status(status).json({ error: err.message ?? "Remove song failed" });
+    }
+  }
+
+  // POST /sets/:setId/songs/move  Body: { fromIndex, toIndex }
+  @httpPost("/:setId/songs/move", AuthMiddleware)
+  async moveSong(req: Request, res: Response) {
+    try {
+      const body = await ReorderSongSchema.parseAsync(req.body);
+      const result = await this.set.moveSong(req.params.setId, req.user!.id, body.fromIndex, body.toIndex, expectedVersion(req));
+      setETag(res, result.version);
+      return res.json(result);
+    } catch (err: any) {
+      if (err?.issues) {
+        return res.status(400).json({ error: "ValidationError", issues: err.issues });
+      }
+      if (sendConflict(res, err)) return;
+      const status = err?.message === "Forbidden" ? 403 : err?.message === "Set not found" ? 404 : 400;
+      return res.status(status).json({ error: err.message ?? "Move song failed" });
+    }
+  }
+
+  // POST /sets/:setId/tags  Body: { tags: string[] }
+  @httpPost("/:setId/tags", AuthMiddleware)
+  async addTags(req: Request, res: Response) {
+    try {
+      const body = await AddTagsSchema.parseAsync(req.body);
+      const result = await this.set.addTags(req.params.setId, req.user!.id, body.tags, expectedVersion(req));
+      setETag(res, result.version);
+      return res.json(result);
+    } catch (err: any) {
+      if (err?.issues) {
+        return res.status(400).json({ error: "ValidationError", issues: err.issues });
+      }
+      if (sendConflict(res, err)) return;
+      const status = err?.message === "Forbidden" ? 403 : err?.message === "Set not found" ? 404 : 400;
+      return res.status(status).json({ error: err.message ?? "Add tags failed" });
+    }
+  }
+
+  // DELETE /sets/:setId/tags  Body: { tags: string[] }
+  @httpDelete("/:setId/tags", AuthMiddleware)
+  async removeTags(req: Request, res: Response) {
+    try {
+      const body = await RemoveTagsSchema.parseAsync(req.body);
+      const result = await this.set.removeTags(req.params.setId, req.user!.id, body.tags, expectedVersion(req));
+      setETag(res, result.version);
+      return res.json(result);
+    } catch (err: any) {
+      if (err?.issues) {
+        return res.status(400).json({ error: "ValidationError", issues: err.issues });
+      }
+      if (sendConflict(res, err)) return;
+      const status = err?.message === "Forbidden" ? 403 : err?.message === "Set not found" ? 404 : 400;
+      return res.status(status).json({ error: err.message ?? "Remove tags failed" });
+    }
+  }
+
   @httpPatch("/:setId", AuthMiddleware)
   async updateBasic(req: Request, res: Response) {
     try {
@@ -102,7 +255,8 @@ export default class SetController implements interfaces.Controller {
       const { setId } = req.params;
       const userId = req.user!.id;
 
-      const updated = await this.set.updateSetBasic(setId, userId, body);
+      const updated = await this.set.updateSetBasic(setId, userId, body, expectedVersion(req));
+      setETag(res, updated.version);
       return res.json(updated);
     } catch (err: any) {
       if (err?.issues) {
@@ -111,6 +265,7 @@ export default class SetController implements interfaces.Controller {
           issues: err.issues.map((i: any) => ({ path: i.path.join("."), message: i.message })),
         });
       }
+      if (sendConflict(res, err)) return;
       const status =
         err?.message === "Forbidden" ? 403 :
           err?.message === "Set not found" ? 404 : 400;
@@ -118,198 +273,177 @@ export default class SetController implements interfaces.Controller {
     }
   }
 
-  // GET /sets?sort=recent|loved|collab&tag=tagName&limit=100
-  @httpGet("/")
+  // GET /sets?sort=recent|loved|collab&tag=a&tag=b&createdBy=<id>&collaborator=<id>&songId=<trackId>&visibility=private&limit=20&cursor=<nextCursor>
+  // Returns { sets, nextCursor, tags? } — tags only on the first page (no cursor).
+  // Anonymous callers get public sets only; signed-in users also see sets they own or collaborate on.
+  @httpGet("/", OptionalAuthMiddleware)
   async list(req: Request, res: Response) {
     try {
-      const { sort = "recent", tag, limit } = req.query as any;
-      const q: any = {};
-      if (tag) q.tags = tag;
-
-      // build query and populate referenced user fields
-      let query = Set.find(q)
-        .populate("createdBy", "name displayName email")
-        .populate("collaborators", "name displayName")
-        .populate("lovedBy", "_id")
-        .lean();
-
-      let docs: any[] = await query.exec();
-
-      // sort in-memory (ok for typical result sizes) — adjust to aggregation for large collections
-      if (sort === "recent") {
-        docs.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-      } else if (sort === "loved") {
-        docs.sort((a, b) => (b.lovedBy?.length || 0) - (a.lovedBy?.length || 0));
-      } else if (sort === "collab") {
-        docs.sort((a, b) => (b.collaborators?.length || 0) - (a.collaborators?.length || 0));
-      }
-
-      const max = Math.min(Number(limit) || 200, 1000);
-      docs = docs.slice(0, max);
-
-      const tags = await Set.distinct("tags");
-
-      return res.json({ sets: docs, tags });
+      const query = await ListSetsQuerySchema.parseAsync(req.query);
+      const result = await this.set.listSets(query, req.user?.id);
+      return res.json(result);
     } catch (err: any) {
+      if (err?.issues) {
+        return res.status(400).json({
+          error: "ValidationError",
+          issues: err.issues.map((i: any) => ({ path: i.path.join("."), message: i.message })),
+        });
+      }
+      if (err?.message === "Invalid cursor") {
+        return res.status(400).json({ error: err.message });
+      }
       console.error("List sets error", err);
       return res.status(500).json({ error: err.message ?? "Failed to list sets" });
     }
   }
 
-  // POST /sets/:setId/queue
-  // Body: { trackIds?: string[], playNow?: boolean, deviceId?: string, name?: string }
-  // If trackIds is not provided, caller is expected to pass the setId and the frontend
-  // can send the set's songs. This endpoint creates a temporary private playlist,
-  // adds tracks (preserving order), starts playback (if requested) and stores the
-  // temp playlist id in Redis so it can be removed next time the user queues another set.
-  @httpPost("/spotify/queue", AuthMiddleware)
-  async queueSet(req: Request, res: Response) {
-
+  // GET /sets/:setId[?share=<token>] — read with track metadata from the cache (auth optional
+  // for public sets; unlisted need membership or the share token, private need membership)
+  // ETag carries the content version to send back as If-Match when editing. Loves and
+  // viewer fields change without a version bump, so this is not used for 304s.
+  @httpGet("/:setId", OptionalAuthMiddleware)
+  async getOne(req: Request, res: Response) {
     try {
-      const { setId } = req.params;
-      const body = req.body || {};
-      // prefer explicit trackIds from body; require at least one id
-      const rawTrackIds: string[] = Array.isArray(body.trackIds)
-        ? body.trackIds
-        : [];
-
-      if (!rawTrackIds.length) {
-        return res.status(400).json({ error: "Missing trackIds (send set songs from frontend)" });
-      }
+      const set = await this.set.getSet(req.params.setId, req.user?.id, shareToken(req));
 
-      const playNow = !!body.playNow || !!body.playFirst;
-      const deviceId = body.deviceId as string | undefined;
-      const nameHint = (body.name as string | undefined) || `Temp Set ${new Date().toISOString().slice(0, 19).replace('T', ' ')}`;
-
-      const appUserId = req.user!.id;
-      const accessToken = await this.spotify.ensureAccessToken(appUserId);
-
-      const chunk = <T,>(arr: T[], size: number) => {
-        const out: T[][] = [];
-        for (let i = 0; i < arr.length; i += size) out.push(arr.slice(i, i + size));
-        return out;
-      };
-
-      // delete previous temp playlist if present (best-effort)
-      try {
-        const prev = await redisClient.get(`${TEMP_PLAYLIST_PREFIX}${appUserId}`);
-        if (prev) {
-          try {
-            await fetch(`https://api.spotify.com/v1/playlists/${encodeURIComponent(prev)}/followers`, {
-              method: "DELETE",
-              headers: { Authorization: `Bearer ${accessToken}` },
-            });
-          } catch (e) {
-            console.warn("Failed to delete previous temp playlist", prev, e);
-          }
-          await redisClient.del(`${TEMP_PLAYLIST_PREFIX}${appUserId}`);
-        }
-      } catch (e) {
-        console.warn("Redis check/delete for previous temp playlist failed", e);
-      }
+      setETag(res, set.version);
+      res.setHeader("Cache-Control", "private, no-store");
+      return res.json(set);
+    } catch (err: any) {
+      const status = err?.message === "Set not found" ? 404 : 500;
+      if (status === 500) console.error("Get set error", err);
+      return res.status(status).json({ error: err.message ?? "Failed to load set" });
+    }
+  }
 
-      // get spotify user id to create playlist
-      let spotifyUserId: string;
-      try {
-        const me = await this.spotify.getCurrentUserProfile(accessToken);
-        spotifyUserId = me.id;
-      } catch (e: any) {
-        console.error("Failed to fetch spotify profile", e);
-        return res.status(502).json({ error: "Failed to fetch Spotify profile" });
-      }
+  // GET /sets/:setId/events[?share=<token>] — Server-Sent Events with the same access rules as
+  // GET /sets/:setId. `ready` first, then one event per change: versioned edits named after
+  // their history action (songs.add, songs.move, metadata.update, ... with the new content),
+  // suggestion.create / suggestion.reject, love.add / love.remove, owner.transfer. The stream
+  // ends after set.delete, set.purge or access.revoked.
+  @httpGet("/:setId/events", OptionalAuthMiddleware)
+  async events(req: Request, res: Response) {
+    const stream = eventStream(res, ["set.delete", "set.purge", "access.revoked"]);
+    try {
+      stream.keepAlive(await this.set.events(req.params.setId, req.user?.id, shareToken(req), stream.send));
+    } catch (err: any) {
+      if (res.headersSent) return res.end();
+      const status = err?.message === "Set not found" ? 404 : 500;
+      if (status === 500) console.error("Set events error", err);
+      return res.status(status).json({ error: err.message ?? "Failed to open event stream" });
+    }
+  }
 
-      // create private playlist
-      let playlistId: string;
-      try {
-        const createResp = await fetch(`https://api.spotify.com/v1/users/${encodeURIComponent(spotifyUserId)}/playlists`, {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            name: nameHint,
-            description: "Temporary playlist created by Gooodvibez",
-            public: false,
-          }),
+  // POST /sets/:setId/queue[?share=<token>]
+  // Body: { playNow?: boolean, deviceId?: string, name?: string }
+  // Replaces the caller's temporary private Spotify playlist with the set's songs (in set
+  // order) and optionally starts playing it. The previous temp playlist is removed.
+  @httpPost("/:setId/queue", AuthMiddleware)
+  async queueSet(req: Request, res: Response) {
+    try {
+      const body = await QueueSetSchema.parseAsync(req.body || {});
+      const result = await this.set.queueSet(req.params.setId, req.user!.id, {
+        playNow: body.playNow ?? body.playFirst,
+        deviceId: body.deviceId,
+        name: body.name,
+      }, shareToken(req));
+      return res.json(result);
+    } catch (err: any) {
+      if (err?.issues) {
+        return res.status(400).json({
+          error: "ValidationError",
+          issues: err.issues.map((i: any) => ({ path: i.path.join("."), message: i.message })),
         });
-        if (!createResp.ok) {
-          const txt = await createResp.text().catch(() => "");
-          console.error("Create playlist failed", createResp.status, txt);
-          return res.status(createResp.status).json({ error: "Create playlist failed", details: txt });
-        }
-        const created = await createResp.json();
-        playlistId = created.id;
-      } catch (e: any) {
-        console.error("Create playlist error", e);
-        return res.status(500).json({ error: "Failed to create playlist" });
       }
-
-      // add tracks in chunks
-      try {
-        const uris = rawTrackIds.map((id) => `spotify:track:${id}`);
-        const groups = chunk(uris, 100);
-        for (const g of groups) {
-          const addResp = await fetch(`https://api.spotify.com/v1/playlists/${encodeURIComponent(playlistId)}/tracks`, {
-            method: "POST",
-            headers: {
-              Authorization: `Bearer ${accessToken}`,
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({ uris: g }),
-          });
-          if (!addResp.ok) {
-            const txt = await addResp.text().catch(() => "");
-            console.error("Add tracks failed", addResp.status, txt);
-            try { await fetch(`https://api.spotify.com/v1/playlists/${encodeURIComponent(playlistId)}/followers`, { method: "DELETE", headers: { Authorization: `Bearer ${accessToken}` } }); } catch { }
-            return res.status(addResp.status).json({ error: "Add tracks failed", details: txt });
-          }
-        }
-      } catch (e: any) {
-        console.error("Add tracks error", e);
-        try { await fetch(`https://api.spotify.com/v1/playlists/${encodeURIComponent(playlistId)}/followers`, { method: "DELETE", headers: { Authorization: `Bearer ${accessToken}` } }); } catch { }
-        return res.status(500).json({ error: "Failed to add tracks to playlist" });
+      switch (err?.message) {
+        case "Set not found": return res.status(404).json({ error: err.message });
+        case "Set has no songs": return res.status(400).json({ error: err.message });
+        case "No tokens stored for user": return res.status(400).json({ error: "Spotify account not connected" });
+        case "Spotify reconnect required": return res.status(400).json({ error: err.message, reconnect: true });
       }
+      // Spotify errors carry the upstream status; a playback failure still reports the playlist it made
+      console.error("queueSet error", err);
+      return res.status(err?.status ?? 500).json({
+        error: err?.playlistId ? "Failed to start playback" : (err?.message ?? "Queue failed"),
+        details: err?.details,
+        ...(err?.playlistId ? { playlistId: err.playlistId } : {}),
+      });
+    }
+  }
 
-      // persist playlist id in redis
-      try {
-        await redisClient.set(`${TEMP_PLAYLIST_PREFIX}${appUserId}`, playlistId, { EX: TEMP_PLAYLIST_TTL });
-      } catch (e) {
-        console.warn("Failed to persist temp playlist id in redis", e);
-      }
+  // ---- Saved Spotify playlists ----
 
-      // ensure shuffle off (best-effort)
-      try {
-        await fetch(`https://api.spotify.com/v1/me/player/shuffle?state=false${deviceId ? `&device_id=${encodeURIComponent(deviceId)}` : ""}`, {
-          method: "PUT",
-          headers: { Authorization: `Bearer ${accessToken}` },
+  // POST /sets/:setId/spotify/save[?share=<token>]  Body: { name?, public? }
+  // Saves the set as a named playlist in the caller's Spotify library and keeps it linked:
+  // later song edits on the set are pushed to it. Saving again re-pushes the current songs.
+  @httpPost("/:setId/spotify/save", AuthMiddleware)
+  async saveToSpotify(req: Request, res: Response) {
+    try {
+      const body = await SaveToSpotifySchema.parseAsync(req.body || {});
+      const result = await this.set.saveToSpotify(req.params.setId, req.user!.id, body, shareToken(req));
+      return res.status(result.created ? 201 : 200).json(result);
+    } catch (err: any) {
+      if (err?.issues) {
+        return res.status(400).json({
+          error: "ValidationError",
+          issues: err.issues.map((i: any) => ({ path: i.path.join("."), message: i.message })),
         });
-      } catch (e) {
-        // ignore
       }
+      return SetController.sendSpotifyLinkError(res, err, "Save to Spotify failed");
+    }
+  }
 
-      // start playback of the playlist if requested (replace playback) - reuse SpotifyService
-      if (playNow) {
-        try {
-          await this.spotify.playUrisForUser(appUserId, [`spotify:playlist:${playlistId}`], deviceId);
-        } catch (e: any) {
-          console.error("Play playlist error", e);
-          const status = e?.status ?? 500;
-          return res.status(status).json({ error: "Failed to start playback", details: e?.details ?? e?.message, playlistId });
-        }
+  // POST /sets/:setId/spotify/sync  Body: { apply?: boolean, version? }
+  // Diffs the linked playlist (as edited in the Spotify app) against the set. With
+  // apply: true an editor adopts the playlist's order as a new set version.
+  @httpPost("/:setId/spotify/sync", AuthMiddleware)
+  async syncFromSpotify(req: Request, res: Response) {
+    try {
+      const body = await SyncFromSpotifySchema.parseAsync(req.body || {});
+      const result = await this.set.syncFromSpotify(req.params.setId, req.user!.id, body, expectedVersion(req));
+      setETag(res, result.version);
+      return res.json(result);
+    } catch (err: any) {
+      if (err?.issues) {
+        return res.status(400).json({
+          error: "ValidationError",
+          issues: err.issues.map((i: any) => ({ path: i.path.join("."), message: i.message })),
+        });
       }
+      if (sendConflict(res, err)) return;
+      return SetController.sendSpotifyLinkError(res, err, "Spotify sync failed");
+    }
+  }
 
-      return res.json({ ok: true, playlistId, total: rawTrackIds.length, deviceId: deviceId ?? null });
+  // DELETE /sets/:setId/spotify[?unfollow=true] — stop syncing; unfollow also removes the playlist
+  @httpDelete("/:setId/spotify", AuthMiddleware)
+  async unlinkSpotify(req: Request, res: Response) {
+    try {
+      const result = await this.set.unlinkSpotify(req.params.setId, req.user!.id, req.query.unfollow === "true");
+      return res.json(result);
     } catch (err: any) {
-      console.error("queueSet (playlist) error", err);
-      return res.status(500).json({ error: err?.message ?? "Internal Server Error" });
+      return SetController.sendSpotifyLinkError(res, err, "Unlink failed");
     }
+  }
 
-
+  private static sendSpotifyLinkError(res: Response, err: any, fallback: string) {
+    switch (err?.message) {
+      case "Forbidden": return res.status(403).json({ error: err.message });
+      case "Set not found":
+      case "Set is not linked to Spotify": return res.status(404).json({ error: err.message });
+      case "Linked playlist no longer exists": return res.status(410).json({ error: err.message });
+      case "No tokens stored for user": return res.status(400).json({ error: "Spotify account not connected" });
+      case "Spotify reconnect required": return res.status(400).json({ error: err.message, reconnect: true });
+    }
+    // Spotify API errors carry the upstream status; a Spotify 401 is our stored token, not the caller's session
+    if (err?.status) return res.status(err.status === 401 ? 502 : err.status).json({ error: fallback, details: err.details });
+    console.error(fallback, err);
+    return res.status(500).json({ error: err?.message ?? fallback });
   }
 
   // PATCH /sets/:setId/full
-  // Update metadata (name/description/tags) and replace full song list in one atomic request.
+  // Update metadata (name/description/tags), images and the full song list in one atomic write.
+  // Send If-Match (or body.version) to get a 409 instead of overwriting someone else's edit.
   @httpPatch("/:setId/full", AuthMiddleware)
   async updateFull(req: Request, res: Response) {
 
@@ -328,52 +462,229 @@ export default class SetController implements interfaces.Controller {
       // allow song objects or ids
       const songsPayload = await ReplaceSongsSchema.parseAsync({ songs: Array.isArray(body.songs) ? body.songs : [] });
 
-      // Update metadata
-      await this.set.updateSetBasic(setId, userId, {
-        name: meta.name,
-        description: meta.description ?? null,
-        tags: meta.tags ?? [],
-        ...(images ? { images } : {}),
-      });
-
       // Pass full song items (string id or object { id, title, artists, image }) so provided images are preserved.
       const songItems = (songsPayload.songs || []).map((s: any) => (typeof s === "string" ? s : { id: s.id, title: s.title, artists: s.artists, image: s.image }));
 
-      // Replace songs (will validate editor permissions inside service). Service will prefer any provided song objects.
-      const replaceResult = await this.set.replaceSongs(setId, userId, songItems);
-
-      // Ensure images are persisted after songs update. Prefer explicit images from body,
-      // otherwise derive from the replaced songs (first up to 5 non-empty images).
-      const finalImages =
-        images && images.length
-          ? images
-          : Array.isArray(replaceResult?.songs)
-            ? (replaceResult.songs as any[])
-              .map((s) => (s && (s as any).image) || null)
-              .filter(Boolean)
-              .slice(0, 5)
-            : [];
-      if (finalImages && finalImages.length) {
-        try {
-          await Set.findByIdAndUpdate(setId, { images: finalImages }).exec();
-          console.log("updateFull: persisted images for set", setId, finalImages.length);
-        } catch (e) {
-          console.warn("updateFull: failed to persist images", e);
-        }
+      // Metadata, songs and images are written together (editor permissions checked inside service).
+      const updated = await this.set.updateFull(setId, userId, {
+        name: meta.name,
+        description: meta.description,
+        tags: meta.tags,
+        images,
+        songs: songItems,
+      }, expectedVersion(req));
+
+      // the document our versioned write produced, so body and ETag match exactly
+      setETag(res, updated.version);
+      return res.json(updated);
+    } catch (err: any) {
+      if (err?.issues) {
+        return res.status(400).json({
+          error: "ValidationError",
+          issues: err.issues.map((i: any) => ({ path: i.path.join("."), message: i.message })),
+        });
       }
+      if (sendConflict(res, err)) return;
+      const status = err?.message === "Forbidden" ? 403 : err?.message === "Set not found" ? 404 : 500;
+      console.error("updateFull error", err);
+      return res.status(status).json({ error: err?.message ?? "Update failed" });
+    }
+  }
 
-      // Re-load the persisted set from DB and return it (ensure client sees saved state)
-      const updatedDoc = await Set.findById(setId)
-        .populate("createdBy", "name displayName email")
-        .populate("collaborators", "name displayName")
-        .populate("lovedBy", "_id")
-        .lean();
+  // DELETE /sets/:setId  (owner; soft delete — restorable from the trash, loves kept)
+  @httpDelete("/:setId", AuthMiddleware)
+  async remove(req: Request, res: Response) {
+    try {
+      const result = await this.set.deleteSet(req.params.setId, req.user!.id);
+      return res.json(result);
+    } catch (err: any) {
+      const status = err?.message === "Forbidden" ? 403 : err?.message === "Set not found" ? 404 : 400;
+      return res.status(status).json({ error: err.message ?? "Delete failed" });
+    }
+  }
+
+  // POST /sets/:setId/restore  (owner)
+  @httpPost("/:setId/restore", AuthMiddleware)
+  async restore(req: Request, res: Response) {
+    try {
+      const restored = await this.set.restoreSet(req.params.setId, req.user!.id);
+      return res.json(restored);
+    } catch (err: any) {
+      const status = err?.message === "Forbidden" ? 403 : err?.message === "Set not found" ? 404 : 400;
+      return res.status(status).json({ error: err.message ?? "Restore failed" });
+    }
+  }
+
+  // DELETE /sets/:setId/purge  (owner; permanent, loves removed)
+  @httpDelete("/:setId/purge", AuthMiddleware)
+  async purge(req: Request, res: Response) {
+    try {
+      const result = await this.set.purgeSet(req.params.setId, req.user!.id);
+      return res.json(result);
+    } catch (err: any) {
+      const status = err?.message === "Forbidden" ? 403 : err?.message === "Set not found" ? 404 : 400;
+      return res.status(status).json({ error: err.message ?? "Purge failed" });
+    }
+  }
+
+  // POST /sets/:setId/transfer  Body: { userId }  (owner; target must be a collaborator)
+  @httpPost("/:setId/transfer", AuthMiddleware)
+  async transfer(req: Request, res: Response) {
+    try {
+      const { userId } = (req.body || {}) as { userId?: string };
+      if (!userId) return res.status(400).json({ error: "Missing userId" });
 
-      if (!updatedDoc) {
-        return res.status(404).json({ error: "Set not found after update" });
+      const updated = await this.set.transferOwnership(req.params.setId, req.user!.id, userId);
+      return res.json(updated);
+    } catch (err: any) {
+      const status =
+        err?.message === "Forbidden" ? 403 :
+          err?.message === "Set not found" ? 404 :
+            err?.message === "New owner must be a collaborator" ? 409 : 400;
+      return res.status(status).json({ error: err.message ?? "Transfer failed" });
+    }
+  }
+
+  // ---- Share links ----
+
+  // POST /sets/:setId/share  (owner) — issues a new link token; the previous link stops working
+  @httpPost("/:setId/share", AuthMiddleware)
+  async rotateShare(req: Request, res: Response) {
+    try {
+      const result = await this.set.rotateShareToken(req.params.setId, req.user!.id);
+      return res.json(result);
+    } catch (err: any) {
+      const status =
+        err?.message === "Forbidden" ? 403 :
+          err?.message === "Set not found" ? 404 : 400;
+      return res.status(status).json({ error: err.message ?? "Share link failed" });
+    }
+  }
+
+  // DELETE /sets/:setId/share  (owner) — revokes the current link
+  @httpDelete("/:setId/share", AuthMiddleware)
+  async revokeShare(req: Request, res: Response) {
+    try {
+      const result = await this.set.revokeShareToken(req.params.setId, req.user!.id);
+      return res.json(result);
+    } catch (err: any) {
+      const status =
+        err?.message === "Forbidden" ? 403 :
+          err?.message === "Set not found" ? 404 : 400;
+      return res.status(status).json({ error: err.message ?? "Revoke share link failed" });
+    }
+  }
+
+  // ---- History ----
+
+  // GET /sets/:setId/history?page=1&limit=20  (newest first, songs omitted)
+  @httpGet("/:setId/history", AuthMiddleware)
+  async history(req: Request, res: Response) {
+    try {
+      const { page, limit } = await PaginationQuerySchema.parseAsync(req.query);
+      const result = await this.set.listHistory(req.params.setId, req.user!.id, page, limit);
+      return res.json(result);
+    } catch (err: any) {
+      if (err?.issues) {
+        return res.status(400).json({ error: "ValidationError", issues: err.issues });
       }
+      return res.status(SetController.historyErrorStatus(err)).json({ error: err.message ?? "History failed" });
+    }
+  }
 
-      return res.json(updatedDoc);
+  // GET /sets/:setId/history/diff?from=3&to=5
+  @httpGet("/:setId/history/diff", AuthMiddleware)
+  async historyDiff(req: Request, res: Response) {
+    try {
+      const { from, to } = await VersionDiffQuerySchema.parseAsync(req.query);
+      const diff = await this.set.diffVersions(req.params.setId, req.user!.id, from, to);
+      return res.json(diff);
+    } catch (err: any) {
+      if (err?.issues) {
+        return res.status(400).json({ error: "ValidationError", issues: err.issues });
+      }
+      return res.status(SetController.historyErrorStatus(err)).json({ error: err.message ?? "Diff failed" });
+    }
+  }
+
+  // GET /sets/:setId/history/:version  (full snapshot)
+  @httpGet("/:setId/history/:version", AuthMiddleware)
+  async historyVersion(req: Request, res: Response) {
+    try {
+      const { version } = await VersionParamSchema.parseAsync(req.params);
+      const found = await this.set.getVersion(req.params.setId, req.user!.id, version);
+      return res.json(found);
+    } catch (err: any) {
+      if (err?.issues) {
+        return res.status(400).json({ error: "ValidationError", issues: err.issues });
+      }
+      return res.status(SetController.historyErrorStatus(err)).json({ error: err.message ?? "Version lookup failed" });
+    }
+  }
+
+  // POST /sets/:setId/revert/:version  (editors; creates a new version)
+  @httpPost("/:setId/revert/:version", AuthMiddleware)
+  async revert(req: Request, res: Response) {
+    try {
+      const { version } = await VersionParamSchema.parseAsync(req.params);
+      const result = await this.set.revert(req.params.setId, req.user!.id, version, expectedVersion(req));
+      setETag(res, result.version);
+      return res.json(result);
+    } catch (err: any) {
+      if (err?.issues) {
+        return res.status(400).json({ error: "ValidationError", issues: err.issues });
+      }
+      if (sendConflict(res, err)) return;
+      return res.status(SetController.historyErrorStatus(err)).json({ error: err.message ?? "Revert failed" });
+    }
+  }
+
+  private static historyErrorStatus(err: any) {
+    switch (err?.message) {
+      case "Forbidden": return 403;
+      case "Set not found":
+      case "Version not found": return 404;
+      default: return 400;
+    }
+  }
+
+  // POST /sets/:setId/love[?share=<token>]  (idempotent)
+  @httpPost("/:setId/love", AuthMiddleware)
+  async love(req: Request, res: Response) {
+    try {
+      const result = await this.set.love(req.params.setId, req.user!.id, shareToken(req));
+      return res.json(result);
+    } catch (err: any) {
+      const status = err?.message === "Set not found" ? 404 : 400;
+      return res.status(status).json({ error: err.message ?? "Love failed" });
+    }
+  }
+
+  // DELETE /sets/:setId/love  (idempotent)
+  @httpDelete("/:setId/love", AuthMiddleware)
+  async unlove(req: Request, res: Response) {
+    try {
+      const result = await this.set.unlove(req.params.setId, req.user!.id);
+      return res.json(result);
+    } catch (err: any) {
+      const status = err?.message === "Set not found" ? 404 : 400;
+      return res.status(status).json({ error: err.message ?? "Unlove failed" });
+    }
+  }
+
+  // POST /sets/:setId/suggestions
+  // Body: { proposedQueue?: string[], adds?: string[], removes?: string[], reorder?: { trackId, toIndex }[] }
+  // Any authenticated user who can see the set (?share=<token> for unlisted) can propose
+  // an edit; owner/collaborators review it.
+  @httpPost("/:setId/suggestions", AuthMiddleware)
+  async createSuggestion(req: Request, res: Response) {
+    try {
+      const body = await CreateSuggestionSchema.parseAsync(req.body);
+      const { setId } = req.params;
+      const userId = req.user!.id;
+
+      const suggestion = await this.set.createSuggestion(setId, userId, body, shareToken(req));
+      return res.status(201).json(suggestion);
     } catch (err: any) {
       if (err?.issues) {
         return res.status(400).json({
@@ -381,9 +692,181 @@ export default class SetController implements interfaces.Controller {
           issues: err.issues.map((i: any) => ({ path: i.path.join("."), message: i.message })),
         });
       }
-      const status = err?.message === "Forbidden" ? 403 : err?.message === "Set not found" ? 404 : 500;
-      console.error("updateFull error", err);
-      return res.status(status).json({ error: err?.message ?? "Update failed" });
+      const status = err?.message === "Set not found" ? 404 : 400;
+      return res.status(status).json({ error: err.message ?? "Create suggestion failed" });
+    }
+  }
+
+  // GET /sets/:setId/suggestions?status=open|accepted|rejected
+  @httpGet("/:setId/suggestions", AuthMiddleware)
+  async listSuggestions(req: Request, res: Response) {
+    try {
+      const { status } = await ListSuggestionsQuerySchema.parseAsync(req.query);
+      const { setId } = req.params;
+      const userId = req.user!.id;
+
+      const suggestions = await this.set.listSuggestions(setId, userId, status);
+      return res.json({ suggestions });
+    } catch (err: any) {
+      if (err?.issues) {
+        return res.status(400).json({ error: "ValidationError", issues: err.issues });
+      }
+      const status = err?.message === "Forbidden" ? 403 : err?.message === "Set not found" ? 404 : 400;
+      return res.status(status).json({ error: err.message ?? "List suggestions failed" });
+    }
+  }
+
+  // POST /sets/:setId/suggestions/:suggestionId/accept
+  // Applies the suggestion through replaceSongs and records lastCollaboration.
+  @httpPost("/:setId/suggestions/:suggestionId/accept", AuthMiddleware)
+  async acceptSuggestion(req: Request, res: Response) {
+    try {
+      const { setId, suggestionId } = req.params;
+      const userId = req.user!.id;
+
+      const result = await this.set.acceptSuggestion(setId, suggestionId, userId, expectedVersion(req));
+      setETag(res, result.version);
+      return res.json(result);
+    } catch (err: any) {
+      if (sendConflict(res, err)) return;
+      return res.status(SetController.suggestionErrorStatus(err)).json({ error: err.message ?? "Accept suggestion failed" });
+    }
+  }
+
+  // POST /sets/:setId/suggestions/:suggestionId/reject
+  @httpPost("/:setId/suggestions/:suggestionId/reject", AuthMiddleware)
+  async rejectSuggestion(req: Request, res: Response) {
+    try {
+      const { setId, suggestionId } = req.params;
+      const userId = req.user!.id;
+
+      const suggestion = await this.set.rejectSuggestion(setId, suggestionId, userId);
+      return res.json(suggestion);
+    } catch (err: any) {
+      return res.status(SetController.suggestionErrorStatus(err)).json({ error: err.message ?? "Reject suggestion failed" });
+    }
+  }
+
+  // ---- Collaborators ----
+
+  // GET /sets/:setId/collaborators  (owner + collaborators; pending invites visible to owner)
+  @httpGet("/:setId/collaborators", AuthMiddleware)
+  async listCollaborators(req: Request, res: Response) {
+    try {
+      const result = await this.collaborators.listCollaborators(req.params.setId, req.user!.id);
+      return res.json(result);
+    } catch (err: any) {
+      return res.status(SetController.collaboratorErrorStatus(err)).json({ error: err.message ?? "List collaborators failed" });
+    }
+  }
+
+  // POST /sets/:setId/collaborators/invite  Body: { username?: string, email?: string, role?: "editor"|"suggester"|"viewer" }
+  // By username: 201 with the invitation. By email: always 202, whether or not the address has an account.
+  @httpPost("/:setId/collaborators/invite", AuthMiddleware)
+  async inviteCollaborator(req: Request, res: Response) {
+    try {
+      const body = await InviteCollaboratorSchema.parseAsync(req.body);
+      if (!body.username) {
+        await this.collaborators.inviteByEmail(req.params.setId, req.user!.id, body);
+        return res.status(202).json({ ok: true, next: "If that address has an account, they'll get an invitation." });
+      }
+      const invitation = await this.collaborators.invite(req.params.setId, req.user!.id, body);
+      return res.status(201).json(invitation);
+    } catch (err: any) {
+      if (err?.issues) {
+        return res.status(400).json({
+          error: "ValidationError",
+          issues: err.issues.map((i: any) => ({ path: i.path.join("."), message: i.message })),
+        });
+      }
+      return res.status(SetController.collaboratorErrorStatus(err)).json({ error: err.message ?? "Invite failed" });
+    }
+  }
+
+  // PATCH /sets/:setId/collaborators/:userId  Body: { role }  (owner only)
+  @httpPatch("/:setId/collaborators/:userId", AuthMiddleware)
+  async updateCollaboratorRole(req: Request, res: Response) {
+    try {
+      const { role } = await UpdateCollaboratorRoleSchema.parseAsync(req.body);
+      const { setId, userId } = req.params;
+      const result = await this.collaborators.updateRole(setId, userId, role, req.user!.id);
+      return res.json(result);
+    } catch (err: any) {
+      if (err?.issues) {
+        return res.status(400).json({ error: "ValidationError", issues: err.issues });
+      }
+      return res.status(SetController.collaboratorErrorStatus(err)).json({ error: err.message ?? "Update role failed" });
+    }
+  }
+
+  // DELETE /sets/:setId/collaborators/:userId  (owner removes, or a collaborator leaves)
+  @httpDelete("/:setId/collaborators/:userId", AuthMiddleware)
+  async removeCollaborator(req: Request, res: Response) {
+    try {
+      const { setId, userId } = req.params;
+      const result = await this.collaborators.removeCollaborator(setId, userId, req.user!.id);
+      return res.json(result);
+    } catch (err: any) {
+      return res.status(SetController.collaboratorErrorStatus(err)).json({ error: err.message ?? "Remove collaborator failed" });
+    }
+  }
+
+  // POST /sets/:setId/invitations/:invitationId/accept  (invitee)
+  @httpPost("/:setId/invitations/:invitationId/accept", AuthMiddleware)
+  async acceptInvitation(req: Request, res: Response) {
+    try {
+      const { setId, invitationId } = req.params;
+      const result = await this.collaborators.acceptInvitation(setId, invitationId, req.user!.id);
+      return res.json(result);
+    } catch (err: any) {
+      return res.status(SetController.collaboratorErrorStatus(err)).json({ error: err.message ?? "Accept invitation failed" });
+    }
+  }
+
+  // POST /sets/:setId/invitations/:invitationId/decline  (invitee)
+  @httpPost("/:setId/invitations/:invitationId/decline", AuthMiddleware)
+  async declineInvitation(req: Request, res: Response) {
+    try {
+      const { setId, invitationId } = req.params;
+      const result = await this.collaborators.declineInvitation(setId, invitationId, req.user!.id);
+      return res.json(result);
+    } catch (err: any) {
+      return res.status(SetController.collaboratorErrorStatus(err)).json({ error: err.message ?? "Decline invitation failed" });
+    }
+  }
+
+  // DELETE /sets/:setId/invitations/:invitationId  (owner revokes a pending invite)
+  @httpDelete("/:setId/invitations/:invitationId", AuthMiddleware)
+  async revokeInvitation(req: Request, res: Response) {
+    try {
+      const { setId, invitationId } = req.params;
+      const result = await this.collaborators.revokeInvitation(setId, invitationId, req.user!.id);
+      return res.json(result);
+    } catch (err: any) {
+      return res.status(SetController.collaboratorErrorStatus(err)).json({ error: err.message ?? "Revoke invitation failed" });
+    }
+  }
+
+  private static collaboratorErrorStatus(err: any) {
+    switch (err?.message) {
+      case "Forbidden": return 403;
+      case "Set not found":
+      case "User not found":
+      case "Invitation not found":
+      case "Collaborator not found": return 404;
+      case "Already a collaborator":
+      case "Invitation already pending": return 409;
+      default: return 400;
+    }
+  }
+
+  private static suggestionErrorStatus(err: any) {
+    switch (err?.message) {
+      case "Forbidden": return 403;
+      case "Set not found":
+      case "Suggestion not found": return 404;
+      case "Suggestion already resolved": return 409;
+      default: return 400;
     }
   }
 
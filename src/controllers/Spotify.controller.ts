@@ -1,6 +1,6 @@
 import "reflect-metadata"
 import { Request, Response } from "express"
-import { controller, httpGet, httpPost, interfaces } from "inversify-express-utils"
+import { controller, httpDelete, httpGet, httpPost, interfaces } from "inversify-express-utils"
 import UserService from "../services/User.service"
 import SpotifyService from "../services/Spotify.service"
 import SpotifyTokenRepository from "../repos/SpotifyToken.repository"
@@ -13,7 +13,8 @@ import { SpotifySearchSchema } from "../interfaces/search.interface";
 
 const STATE_PREFIX = "spotify_state:";
 const STATE_TTL = 600; // 10 minute
-// NOTE: temporary playlist / queue logic moved to Set.controller to keep set-related actions together.
+// NOTE: temporary playlist / queue logic lives in SpotifyPlaylistService (POST /sets/:setId/queue);
+// playback control is in SpotifyPlayer.controller.
 
 @controller("/account")
 export default class SpotifyController implements interfaces.Controller {
@@ -141,7 +142,8 @@ export default class SpotifyController implements interfaces.Controller {
       const stored = await this.tokensRepo.getTokens(appUserId);
       if (!stored) {
         console.log("spotifyMe: no stored tokens for", appUserId);
-        return res.json({ profile: null, tokenInfo: null });
+        // reconnectRequired: Spotify revoked the previous connection
+        return res.json({ profile: null, tokenInfo: null, reconnectRequired: await this.tokensRepo.needsReconnect(appUserId) });
       }
 
       const accessToken = await this.spotify.ensureAccessToken(appUserId);
@@ -159,6 +161,9 @@ export default class SpotifyController implements interfaces.Controller {
       return res.json({ profile: me, tokenInfo });
 
     } catch (e: any) {
+      if (e?.message === "Spotify reconnect required") {
+        return res.json({ profile: null, tokenInfo: null, reconnectRequired: true });
+      }
       console.log(e)
       // If ensureAccessToken failed, surface 401 otherwise return error message
       return res.status(401).json({ error: e.message ?? "Unauthorized" });
@@ -166,6 +171,34 @@ export default class SpotifyController implements interfaces.Controller {
   }
 
 
+  // GET /account/spotify/status — connected or not, granted vs required scopes and token
+  // expiry. needsReconsent: connected but missing scopes we've since added (send the user
+  // through /authorize/spotify again); reconnectRequired: Spotify revoked the connection.
+  @httpGet("/spotify/status", AuthMiddleware)
+  async spotifyStatus(req: Request, res: Response) {
+    try {
+      res.setHeader("Cache-Control", "no-store");
+      return res.json(await this.spotify.connectionStatus(req.user!.id));
+    } catch (err: any) {
+      console.error("spotifyStatus error", err);
+      return res.status(500).json({ error: err?.message ?? "Failed to read Spotify status" });
+    }
+  }
+
+  // DELETE /account/spotify — unlink Spotify from this account (every device)
+  @httpDelete("/spotify", AuthMiddleware)
+  async spotifyDisconnect(req: Request, res: Response) {
+    const appUserId = req.user!.id;
+    try {
+      const hadTokens = await this.spotify.disconnect(appUserId);
+      await this.user.clearSpotifyUserId(appUserId);
+      return res.json({ ok: true, disconnected: hadTokens });
+    } catch (err: any) {
+      console.error("spotifyDisconnect error", err);
+      return res.status(500).json({ error: err?.message ?? "Disconnect failed" });
+    }
+  }
+
   @httpPost("/spotify/search", AuthMiddleware)
   async searchTracks(req: Request, res: Response) {
 
@@ -194,65 +227,4 @@ export default class SpotifyController implements interfaces.Controller {
     }
   }
 
-
-  @httpPost("/spotify/play", AuthMiddleware)
-  async playTrack(req: Request, res: Response) {
-    try {
-      const { trackId, deviceId } = req.body as { trackId?: string; deviceId?: string };
-      if (!trackId) return res.status(400).json({ error: "Missing trackId" });
-
-      const appUserId = req.user!.id;
-      // ensure we have a valid access token (service will refresh if needed)
-      const accessToken = await this.spotify.ensureAccessToken(appUserId);
-
-      let targetDeviceId = deviceId;
-
-      // If no device specified, try to find one
-      if (!targetDeviceId) {
-        const devicesResp = await fetch("https://api.spotify.com/v1/me/player/devices", {
-          headers: { Authorization: `Bearer ${accessToken}`, Accept: "application/json" },
-        });
-
-        if (!devicesResp.ok) {
-          const text = await devicesResp.text().catch(() => "");
-          return res.status(502).json({ error: "Failed to query Spotify devices", details: text });
-        }
-
-        const devicesBody = await devicesResp.json().catch(() => ({ devices: [] }));
-        const available = (devicesBody.devices || []) as any[];
-
-        if (!available.length) {
-          return res.status(404).json({
-            error: "No active Spotify devices",
-            message: "Open Spotify on a device (phone/desktop) or pass a deviceId to target.",
-          });
-        }
-        targetDeviceId = available[0].id;
-      }
-
-      // Start playback on the target device
-      // targetDeviceId is guaranteed to be set above (we returned 404 if none),
-      // use non-null assertion to satisfy TypeScript
-      const playUrl = `https://api.spotify.com/v1/me/player/play?device_id=${encodeURIComponent(targetDeviceId!)}`;
-      const playResp = await fetch(playUrl, {
-        method: "PUT",
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ uris: [`spotify:track:${trackId}`] }),
-      });
-
-      if (![204, 202, 200].includes(playResp.status)) {
-        const details = await playResp.text().catch(() => "");
-        return res.status(playResp.status).json({ error: "Spotify play failed", details });
-      }
-
-      return res.json({ ok: true, deviceId: targetDeviceId });
-    } catch (err: any) {
-      console.error("playTrack error", err);
-      return res.status(500).json({ error: err?.message ?? "Internal Server Error" });
-    }
-  }
-
 }
\ No newline at end of file
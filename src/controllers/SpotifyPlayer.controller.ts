@@ -0,0 +1,183 @@
+import "reflect-metadata"
+import { Request, Response } from "express"
+import { controller, httpGet, httpPost, httpPut, interfaces } from "inversify-express-utils"
+import SpotifyPlayerService from "../services/SpotifyPlayer.service"
+import SetService from "../services/Set.service"
+import { AuthMiddleware } from "../middleware/Auth.middleware";
+
+//// INTERFACES
+import {
+  DeviceTargetSchema, PlayTrackSchema, QueueTrackSchema, RepeatSchema, SeekSchema, ShuffleSchema,
+  TransferPlaybackSchema, VolumeSchema,
+} from "../interfaces/player.interface";
+
+// Spotify Connect remote control for the web player. Everything acts on the caller's
+// own Spotify account; most commands need Spotify Premium.
+@controller("/account/spotify")
+export default class SpotifyPlayerController implements interfaces.Controller {
+
+  constructor(private readonly player: SpotifyPlayerService, private readonly sets: SetService) { }
+
+  // POST /account/spotify/play  Body: { trackId, deviceId? }
+  @httpPost("/play", AuthMiddleware)
+  async playTrack(req: Request, res: Response) {
+    return this.respond(res, async () => {
+      const body = await PlayTrackSchema.parseAsync(req.body || {});
+      return this.player.play(req.user!.id, { uris: [`spotify:track:${body.trackId}`], deviceId: body.deviceId });
+    });
+  }
+
+  // GET /account/spotify/now-playing — current track, progress and device; `set` says which
+  // set (and index in it) is playing when playback comes from a queued set the caller can still see
+  @httpGet("/now-playing", AuthMiddleware)
+  async nowPlaying(req: Request, res: Response) {
+    res.setHeader("Cache-Control", "no-store");
+    const userId = req.user!.id;
+    return this.respond(res, () => this.player.nowPlaying(userId, (setId, shareToken) => this.sets.isVisibleTo(setId, userId, shareToken)));
+  }
+
+  @httpGet("/player/devices", AuthMiddleware)
+  async devices(req: Request, res: Response) {
+    return this.respond(res, async () => ({ devices: await this.player.devices(req.user!.id) }));
+  }
+
+  // PUT /account/spotify/player/transfer  Body: { deviceId, play? }
+  @httpPut("/player/transfer", AuthMiddleware)
+  async transfer(req: Request, res: Response) {
+    return this.respond(res, async () => {
+      const body = await TransferPlaybackSchema.parseAsync(req.body || {});
+      return this.player.transfer(req.user!.id, body.deviceId, body.play);
+    });
+  }
+
+  @httpPut("/player/pause", AuthMiddleware)
+  async pause(req: Request, res: Response) {
+    return this.respond(res, async () => {
+      const body = await DeviceTargetSchema.parseAsync(req.body || {});
+      return this.player.pause(req.user!.id, body.deviceId);
+    });
+  }
+
+  @httpPut("/player/resume", AuthMiddleware)
+  async resume(req: Request, res: Response) {
+    return this.respond(res, async () => {
+      const body = await DeviceTargetSchema.parseAsync(req.body || {});
+      return this.player.resume(req.user!.id, body.deviceId);
+    });
+  }
+
+  @httpPost("/player/next", AuthMiddleware)
+  async next(req: Request, res: Response) {
+    return this.respond(res, async () => {
+      const body = await DeviceTargetSchema.parseAsync(req.body || {});
+      return this.player.next(req.user!.id, body.deviceId);
+    });
+  }
+
+  @httpPost("/player/previous", AuthMiddleware)
+  async previous(req: Request, res: Response) {
+    return this.respond(res, async () => {
+      const body = await DeviceTargetSchema.parseAsync(req.body || {});
+      return this.player.previous(req.user!.id, body.deviceId);
+    });
+  }
+
+  // PUT /account/spotify/player/seek  Body: { positionMs, deviceId? }
+  @httpPut("/player/seek", AuthMiddleware)
+  async seek(req: Request, res: Response) {
+    return this.respond(res, async () => {
+      const body = await SeekSchema.parseAsync(req.body || {});
+      return this.player.seek(req.user!.id, body.positionMs, body.deviceId);
+    });
+  }
+
+  // PUT /account/spotify/player/volume  Body: { volumePercent: 0-100, deviceId? }
+  @httpPut("/player/volume", AuthMiddleware)
+  async volume(req: Request, res: Response) {
+    return this.respond(res, async () => {
+      const body = await VolumeSchema.parseAsync(req.body || {});
+      return this.player.volume(req.user!.id, body.volumePercent, body.deviceId);
+    });
+  }
+
+  // PUT /account/spotify/player/repeat  Body: { state: "track" | "context" | "off", deviceId? }
+  @httpPut("/player/repeat", AuthMiddleware)
+  async repeat(req: Request, res: Response) {
+    return this.respond(res, async () => {
+      const body = await RepeatSchema.parseAsync(req.body || {});
+      return this.player.repeat(req.user!.id, body.state, body.deviceId);
+    });
+  }
+
+  // PUT /account/spotify/player/shuffle  Body: { state: boolean, deviceId? }
+  @httpPut("/player/shuffle", AuthMiddleware)
+  async shuffle(req: Request, res: Response) {
+    return this.respond(res, async () => {
+      const body = await ShuffleSchema.parseAsync(req.body || {});
+      return this.player.shuffle(req.user!.id, body.state, body.deviceId);
+    });
+  }
+
+  // POST /account/spotify/player/queue  Body: { trackId, deviceId? } — adds one track to the end of the queue
+  @httpPost("/player/queue", AuthMiddleware)
+  async queue(req: Request, res: Response) {
+    return this.respond(res, async () => {
+      const body = await QueueTrackSchema.parseAsync(req.body || {});
+      return this.player.queue(req.user!.id, body.trackId, body.deviceId);
+    });
+  }
+
+  private async respond(res: Response, work: () => Promise<unknown>) {
+    try {
+      return res.json(await work());
+    } catch (err: any) {
+      return SpotifyPlayerController.sendError(res, err);
+    }
+  }
+
+  // One mapping for every player route
+  private static sendError(res: Response, err: any) {
+    if (err?.issues) {
+      return res.status(400).json({
+        error: "ValidationError",
+        issues: err.issues.map((i: any) => ({ path: i.path.join("."), message: i.message })),
+      });
+    }
+    if (err?.message === "No tokens stored for user") {
+      return res.status(400).json({ error: "Spotify account not connected" });
+    }
+    if (err?.message === "Spotify reconnect required") {
+      return res.status(400).json({ error: err.message, reconnect: true });
+    }
+
+    // Spotify's error body: { error: { status, message, reason } }, e.g. reason PREMIUM_REQUIRED / NO_ACTIVE_DEVICE
+    let reason: string | undefined;
+    let message: string | undefined;
+    try {
+      const parsed = err?.details ? JSON.parse(err.details) : undefined;
+      reason = parsed?.error?.reason;
+      message = parsed?.error?.message;
+    } catch { }
+
+    switch (err?.status) {
+      case 404:
+        return res.status(404).json({
+          error: "No active Spotify devices",
+          message: "Open Spotify on a device (phone/desktop) or pass a deviceId to target.",
+        });
+      case 403:
+        return res.status(403).json({ error: reason === "PREMIUM_REQUIRED" ? "Spotify Premium required" : "Player command not allowed", reason, message });
+      case 429:
+        return res.status(429).json({ error: "Spotify rate limit, try again shortly" });
+      // a Spotify 401 is our stored token, not the caller's session
+      case 401:
+        return res.status(502).json({ error: "Spotify rejected the stored token", message });
+      case undefined:
+        console.error("Spotify player error", err);
+        return res.status(500).json({ error: err?.message ?? "Internal Server Error" });
+      default:
+        return res.status(502).json({ error: "Spotify player command failed", reason, message });
+    }
+  }
+
+}
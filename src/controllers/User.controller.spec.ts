@@ -0,0 +1,96 @@
+// the controller pulls in the Redis client, which connects on import
+jest.mock("../infra/redis", () => ({ redisClient: {} }));
+jest.mock("../models/user.model", () => {
+  const User = { findById: jest.fn() };
+  return { __esModule: true, default: User, User };
+});
+
+import { Request, Response } from "express";
+import { mock } from "jest-mock-extended";
+import { Types } from "mongoose";
+import sift from "sift";
+import UserController from "./User.controller";
+import UserService from "../services/User.service";
+import AuthTokenService from "../services/AuthToken.service";
+import SessionService from "../services/Session.service";
+import SetService from "../services/Set.service";
+import CollaboratorService from "../services/Collaborator.service";
+import UserRepository from "../repos/User.repository";
+import User from "../models/user.model";
+import { Set } from "../models/set.model";
+
+const ownerId = new Types.ObjectId();
+const collaboratorId = new Types.ObjectId();
+const strangerId = new Types.ObjectId();
+
+const set = (name: string, extra: Record<string, unknown>) => ({
+  _id: new Types.ObjectId(),
+  name,
+  songs: [],
+  createdBy: ownerId,
+  collaborators: [collaboratorId],
+  suggestions: [{ author: strangerId }],
+  invitations: [],
+  deletedAt: null,
+  shareToken: null,
+  ...extra,
+});
+
+const ownerSets = [
+  set("Public", { visibility: "public" }),
+  set("Legacy public", {}),
+  set("Private", { visibility: "private" }),
+  set("Unlisted", { visibility: "unlisted", shareToken: "secret-link-token" }),
+  set("Trashed", { visibility: "public", deletedAt: new Date() }),
+];
+
+// Stand-in for Mongo: applies the populate match (with the same matcher mongoose uses in
+// memory) and its field selection to the owner's sets
+function populateLike(opts: { match: Record<string, unknown>; select: string }) {
+  const fields = ["_id", ...opts.select.split(" ")];
+  return ownerSets
+    .filter(sift(opts.match))
+    .map((s) => Object.fromEntries(Object.entries(s).filter(([k]) => fields.includes(k))));
+}
+
+async function byIdAs(viewerId: Types.ObjectId) {
+  (User.findById as jest.Mock).mockImplementation(() => ({
+    populate: (opts: any) => ({
+      lean: async () => ({ _id: ownerId, username: "owner", passwordHash: "hash", sets: populateLike(opts) }),
+    }),
+  }));
+
+  const controller = new UserController(
+    mock<UserService>(), mock<AuthTokenService>(), mock<SessionService>(),
+    mock<UserRepository>(), mock<SetService>(), mock<CollaboratorService>()
+  );
+  const req = { body: { userId: ownerId.toString() }, user: { id: viewerId.toString() } } as unknown as Request;
+  const res = { status: jest.fn().mockReturnThis(), json: jest.fn().mockReturnThis() } as unknown as Response;
+  await controller.byId(req, res);
+  return (res.json as jest.Mock).mock.calls[0][0];
+}
+
+describe("UserController.byId", () => {
+
+  it("does not show another user's private or unlisted sets, or any share token", async () => {
+    const body = await byIdAs(strangerId);
+
+    expect(body.sets.map((s: any) => s.name)).toEqual(["Public", "Legacy public"]);
+    expect(JSON.stringify(body)).not.toContain("secret-link-token");
+    expect(body.sets[0]).not.toHaveProperty("shareToken");
+    expect(body.sets[0]).not.toHaveProperty("suggestions");
+    expect(body).not.toHaveProperty("passwordHash");
+  });
+
+  it("shows private and unlisted sets to collaborators, still without the token", async () => {
+    const body = await byIdAs(collaboratorId);
+
+    expect(body.sets.map((s: any) => s.name)).toEqual(["Public", "Legacy public", "Private", "Unlisted"]);
+    expect(JSON.stringify(body)).not.toContain("secret-link-token");
+  });
+
+  it("keeps the share token out of set reads unless explicitly selected", () => {
+    expect(Set.schema.path("shareToken").options.select).toBe(false);
+  });
+
+});
@@ -1,27 +1,49 @@
 import "reflect-metadata"
 import { Request, Response } from "express"
-import { controller, httpGet, httpPost, interfaces } from "inversify-express-utils"
+import { controller, httpDelete, httpGet, httpPost, interfaces } from "inversify-express-utils"
 import { SignupSchema } from "../interfaces/signup.interface"
 import { VerifiedProfile } from "../interfaces/verifiedProfile.interface"
 import { LoginSchema } from "../interfaces/login.interface"
+import { ChangePasswordSchema, ForgotPasswordSchema, ResetPasswordSchema } from "../interfaces/password.interface"
+import { ResendVerificationSchema, SetEmailSchema } from "../interfaces/verification.interface"
+import { hitRateLimit } from "../infra/rateLimit";
+import { PaginationQuerySchema } from "../interfaces/pagination.interface"
 import { makeCodeVerifier, makeCodeChallengeS256, makeState } from "../utils/pkce";
 import { redisClient } from "../infra/redis";
 import axios from 'axios'
 
-import UserService from "../services/User.service"
-import AuthTokenService from "../services/AuthToken.service"
+import UserService, { isPlaceholderEmail } from "../services/User.service"
+import SetService from "../services/Set.service"
+import CollaboratorService from "../services/Collaborator.service"
+import AuthTokenService, { CSRF_COOKIE, PENDING_COOKIE, REFRESH_COOKIE } from "../services/AuthToken.service"
+import SessionService from "../services/Session.service"
 import UserRepository from "../repos/User.repository"
+import SetRepository from "../repos/Set.repository"
 import User from "../models/user.model"
-import SpotifyTokenRepository from "../repos/SpotifyToken.repository";
-import { AuthMiddleware } from "../middleware/Auth.middleware"
+import { AuthMiddleware, OptionalAuthMiddleware } from "../middleware/Auth.middleware"
 
 const STATE_PREFIX = "x_oauth_state:";
 const STATE_TTL = 10 * 60; // 10 min
+// verification and reset mail: per account/address, and per client IP across addresses
+const MAIL_LIMIT = 3;
+const MAIL_IP_LIMIT = 20;
+const MAIL_WINDOW = 60 * 60; // 1 hour
 
 @controller("/user")
 export default class UserController implements interfaces.Controller {
 
-  constructor(private user: UserService, private auth: AuthTokenService, private userRepo: UserRepository, private tokensRepo: SpotifyTokenRepository) { }
+  constructor(private user: UserService, private auth: AuthTokenService, private sessions: SessionService, private userRepo: UserRepository, private sets: SetService, private collaborators: CollaboratorService) { }
+
+  // Browsers get the tokens as httpOnly cookies only. API clients that use
+  // `Authorization: Bearer` ask for them in the body with `X-Auth-Mode: bearer`.
+  private static sessionBody(req: Request, session: { accessToken: string; refreshToken: string | null; csrfToken: string | null; expiresIn: number }) {
+    const body: Record<string, unknown> = { csrfToken: session.csrfToken, expiresIn: session.expiresIn };
+    if (req.headers["x-auth-mode"] === "bearer") {
+      body.accessToken = session.accessToken;
+      body.refreshToken = session.refreshToken;
+    }
+    return body;
+  }
 
   @httpPost("/auth/signup")
   async signup(req: Request, res: Response) {
@@ -60,16 +82,16 @@ export default class UserController implements interfaces.Controller {
       const token = req.query.token as string;
       if (!token) return res.status(400).json({ error: "Missing token" });
 
-      const userId = this.auth.verifyEmailVerifyToken(token);
+      const { userId, email } = this.auth.verifyEmailVerifyToken(token);
+      // the link verifies the address it was sent to; after a change of address it's stale
+      const user = await this.userRepo.findById(userId);
+      if (!user || user.email.toLowerCase() !== email) throw new Error("Invalid or expired token");
       await this.userRepo.markEmailVerified(userId);
 
       // Issue session now (cookie)
       const u = await this.auth.issueSessionAfterVerify(userId);
-      const jwt = this.auth.makeSessionToken(
-        { sub: u.id, username: u.username, plan: u.plan as any },
-        u.rememberMe
-      );
-      this.auth.setSessionCookie(res, jwt, u.rememberMe);
+      await this.sessions.start(req, res, { _id: u.id, username: u.username, plan: u.plan }, u.rememberMe);
+      this.auth.clearPendingCookie(res);
 
       const frontendUrl = process.env.APP_ORIGIN || "http://localhost:3000";
       // Redirect to dashboard without exposing token in URL
@@ -82,11 +104,15 @@ export default class UserController implements interfaces.Controller {
   @httpPost("/auth/oauth")
   async oauthLogin(req: Request, res: Response) {
     try {
-      const { provider, idToken, accessToken, timezone } = req.body as {
+      const { provider, idToken, accessToken, timezone, nonce, user: appleUser } = req.body as {
         provider: "google" | "apple" | "x";
         idToken?: string;
         accessToken?: string;
         timezone?: string;
+        // Apple: the nonce sent with the authorization request, and the `user` field
+        // ({ name: { firstName, lastName } }) Apple includes on the first authorization
+        nonce?: string;
+        user?: { name?: { firstName?: string; lastName?: string } } | string;
       };
 
       let profile: VerifiedProfile | undefined;
@@ -96,7 +122,7 @@ export default class UserController implements interfaces.Controller {
         profile = await this.auth.verifyGoogle(idToken);
       } else if (provider === "apple") {
         if (!idToken) return res.status(400).json({ error: "Missing idToken" });
-        // profile = await this.auth.verifyApple(idToken, process.env.APPLE_SERVICES_ID!);
+        profile = await this.auth.verifyApple(idToken, { nonce, user: appleUser });
       } else if (provider === "x") {
         if (!accessToken) return res.status(400).json({ error: "Missing accessToken" });
         profile = await this.auth.verifyX(accessToken);
@@ -108,8 +134,12 @@ export default class UserController implements interfaces.Controller {
 
       const user = await this.auth.upsertFromProvider(profile, new Date(), timezone);
 
-      // If the account isn't email-verified yet, don’t issue a cookie
+      // If the account isn't email-verified yet, don’t issue a session; the pending token
+      // only lets the client add an email / resend the verification link
       if (!user.emailVerified) {
+        const pendingToken = this.auth.makePendingVerificationToken(user._id.toString());
+        const csrfToken = this.auth.setPendingCookie(res, pendingToken);
+        const needsEmail = isPlaceholderEmail(user.email);
         return res.status(202).json({
           user: {
             id: user._id,
@@ -121,23 +151,21 @@ export default class UserController implements interfaces.Controller {
             emailVerified: false,
           },
           needsEmailVerification: true,
-          needsEmailCollection: !user.email || user.email.endsWith("@example.invalid"),
-          next:
-            !user.email || user.email.endsWith("@example.invalid")
-              ? "Please provide an email to verify."
-              : "Check your email for a verification link.",
+          needsEmailCollection: needsEmail,
+          pendingToken,
+          csrfToken,
+          next: needsEmail
+            ? "Please provide an email to verify."
+            : "Check your email for a verification link.",
         });
       }
 
       // Verified → set cookie
-      const jwt = this.auth.makeSessionToken(
-        { sub: user._id, username: user.username, plan: user.plan },
-        true
-      );
-      this.auth.setSessionCookie(res, jwt, true);
+      const session = await this.sessions.start(req, res, user, true);
 
       return res.json({
         ok: true,
+        ...UserController.sessionBody(req, session),
         user: {
           id: user._id,
           username: user.username,
@@ -151,6 +179,8 @@ export default class UserController implements interfaces.Controller {
       });
     } catch (err: any) {
       if (err?.issues) return res.status(400).json({ error: "ValidationError", issues: err.issues });
+      if (/^(Invalid Apple|Unknown Apple signing key)/.test(err?.message ?? "")) return res.status(401).json({ error: err.message });
+      if (err?.message === "Email already in use") return res.status(409).json({ error: err.message });
       return res.status(400).json({ error: err.message ?? "OAuth login failed" });
     }
   }
@@ -160,15 +190,13 @@ export default class UserController implements interfaces.Controller {
     try {
       const payload = await LoginSchema.parseAsync(req.body);
 
-      // Your helper currently returns { user, token, expiresIn }
-      // We will use the token to set the cookie here, and respond with user only.
+      // credentials check; the session itself is opened here so the cookies can be set
       const out = await this.auth.login(payload);
-
-      const remember = payload.rememberMe ?? true;
-      this.auth.setSessionCookie(res, out.token, remember);
+      const session = await this.sessions.start(req, res, { _id: out.user.id, username: out.user.username, plan: out.user.plan }, out.remember);
 
       return res.json({
         ok: true,
+        ...UserController.sessionBody(req, session),
         user: out.user,
       });
 
@@ -188,24 +216,56 @@ export default class UserController implements interfaces.Controller {
     }
   }
 
+  // GET /user/auth/csrf — the CSRF token to send as X-CSRF-Token with cookie-authenticated
+  // writes, for clients that can't read the gv_csrf cookie (or signed in via a redirect).
+  // Also available to a pending verification (gv_pending cookie).
+  @httpGet("/auth/csrf", OptionalAuthMiddleware)
+  async csrf(req: Request, res: Response) {
+    res.setHeader("Cache-Control", "no-store");
+    if (!req.user && !this.pendingUserIdFromCookie(req)) {
+      return res.status(401).json({ error: "Missing bearer token or session cookie" });
+    }
+    const csrfToken = this.auth.setCsrfCookie(res, undefined, req.cookies?.[CSRF_COOKIE]);
+    return res.json({ csrfToken });
+  }
+
+  // POST /user/auth/refresh  Body: { refreshToken? } — without a body token the gv_refresh
+  // cookie is used (and the CSRF header is required). Rotates the refresh token; replaying
+  // an old one revokes the session.
+  @httpPost("/auth/refresh")
+  async refresh(req: Request, res: Response) {
+    const bodyToken = typeof req.body?.refreshToken === "string" ? req.body.refreshToken : undefined;
+    const cookieToken = req.cookies?.[REFRESH_COOKIE] as string | undefined;
+    try {
+      if (!bodyToken && !cookieToken) return res.status(401).json({ error: "Missing refresh token" });
+      if (!bodyToken && !this.auth.checkCsrf(req)) return res.status(403).json({ error: "Missing or invalid CSRF token" });
+
+      const session = await this.sessions.refresh(res, bodyToken ?? cookieToken!);
+      return res.json({ ok: true, ...UserController.sessionBody(req, session) });
+    } catch (err: any) {
+      switch (err?.message) {
+        case "Invalid refresh token":
+        case "Session expired":
+        case "Refresh token reuse detected":
+          if (!bodyToken) this.auth.clearSessionCookie(res);
+          return res.status(401).json({ error: err.message });
+      }
+      console.error("UserController.refresh error", err);
+      return res.status(500).json({ error: err?.message ?? "Refresh failed" });
+    }
+  }
+
   @httpPost("/auth/logout", AuthMiddleware)
   async logout(req: Request, res: Response) {
 
     try {
       // identify authenticated user from AuthMiddleware
-      const appUserId = req.user?.id;
-      // clear session cookie
+      const appUserId = req.user!.id;
       console.log("Logging out", appUserId);
+      // end this session server-side (its access token stops working now), then clear cookies
+      await this.sessions.revoke(appUserId, req.user!.sid).catch(() => undefined);
       this.auth.clearSessionCookie(res);
-
-      // attempt to remove any stored spotify tokens for the user (non-fatal)
-      if (appUserId) {
-        try {
-          await this.tokensRepo.deleteTokens(appUserId);
-        } catch (err) {
-          console.warn("Failed to remove spotify tokens for", appUserId, err);
-        }
-      }
+      // Spotify stays connected for the account's other devices; DELETE /account/spotify unlinks it
 
       return res.json({ ok: true });
     } catch (err: any) {
@@ -214,8 +274,263 @@ export default class UserController implements interfaces.Controller {
     }
   }
 
+  // Pending-verification token from the body, else the gv_pending cookie (which, being a
+  // cookie, needs the CSRF header). Undefined when missing, invalid or expired.
+  private pendingUserId(req: Request, bodyToken?: string) {
+    if (!bodyToken) return this.auth.checkCsrf(req) ? this.pendingUserIdFromCookie(req) : undefined;
+    try {
+      return this.auth.verifyPendingVerificationToken(bodyToken);
+    } catch {
+      return undefined;
+    }
+  }
+
+  // the cookie alone, for reads (no CSRF check needed)
+  private pendingUserIdFromCookie(req: Request) {
+    const token = req.cookies?.[PENDING_COOKIE] as string | undefined;
+    if (!token) return undefined;
+    try {
+      return this.auth.verifyPendingVerificationToken(token);
+    } catch {
+      return undefined;
+    }
+  }
+
+  // true when a 429 was sent
+  private static async rateLimited(req: Request, res: Response, key: string, kind: "verify_mail" | "reset_mail" = "verify_mail") {
+    const checks = await Promise.all([
+      hitRateLimit(`${kind}:${key}`, MAIL_LIMIT, MAIL_WINDOW),
+      hitRateLimit(`${kind}_ip:${req.ip}`, MAIL_IP_LIMIT, MAIL_WINDOW),
+    ]);
+    const blocked = checks.find(c => !c.allowed);
+    if (!blocked) return false;
+    res.setHeader("Retry-After", String(blocked.retryAfter));
+    res.status(429).json({ error: "Too many requests, try again later", retryAfter: blocked.retryAfter });
+    return true;
+  }
+
+  // POST /user/auth/email  Body: { email, pendingToken? }
+  // For unverified social sign-ups (X gives no email): set the address and mail the
+  // verification link. Authenticated by the pending-verification token, not a session.
+  @httpPost("/auth/email")
+  async setEmail(req: Request, res: Response) {
+    try {
+      const body = await SetEmailSchema.parseAsync(req.body);
+      const userId = this.pendingUserId(req, body.pendingToken);
+      if (!userId) return res.status(401).json({ error: "Missing or invalid pending verification token" });
+      if (await UserController.rateLimited(req, res, `user:${userId}`)) return;
+
+      const result = await this.user.setEmailForVerification(userId, body.email);
+      return res.status(202).json(result);
+    } catch (err: any) {
+      if (err?.issues) {
+        return res.status(400).json({
+          error: "ValidationError",
+          issues: err.issues.map((i: any) => ({ path: i.path.join("."), message: i.message })),
+        });
+      }
+      switch (err?.message) {
+        case "Email already in use": return res.status(409).json({ error: err.message });
+        case "Email already verified": return res.status(409).json({ error: err.message });
+        case "User not found": return res.status(404).json({ error: err.message });
+      }
+      if (err?.code === 11000) return res.status(409).json({ error: "Email already in use" });
+      console.error("UserController.setEmail error", err);
+      return res.status(500).json({ error: err?.message ?? "Failed to set email" });
+    }
+  }
+
+  // POST /user/auth/resend-verification  Body: { pendingToken? } | { email }
+  // With a pending token (or gv_pending cookie) resends to that account's address; with an
+  // email (password sign-ups) answers the same whether or not the account exists.
+  @httpPost("/auth/resend-verification")
+  async resendVerification(req: Request, res: Response) {
+    try {
+      const body = await ResendVerificationSchema.parseAsync(req.body ?? {});
+      const userId = this.pendingUserId(req, body.pendingToken);
+
+      if (userId) {
+        if (await UserController.rateLimited(req, res, `user:${userId}`)) return;
+        return res.status(202).json(await this.user.resendVerification(userId));
+      }
+      if (body.email) {
+        if (await UserController.rateLimited(req, res, `email:${body.email.toLowerCase()}`)) return;
+        await this.user.resendVerificationByEmail(body.email);
+        return res.status(202).json({ ok: true, next: "If that account still needs verifying, a new link is on its way." });
+      }
+      return res.status(401).json({ error: "Missing or invalid pending verification token" });
+    } catch (err: any) {
+      if (err?.issues) {
+        return res.status(400).json({
+          error: "ValidationError",
+          issues: err.issues.map((i: any) => ({ path: i.path.join("."), message: i.message })),
+        });
+      }
+      switch (err?.message) {
+        case "Email already verified": return res.status(409).json({ error: err.message });
+        case "No email on file": return res.status(400).json({ error: "Set an email first (POST /user/auth/email)" });
+        case "User not found": return res.status(404).json({ error: err.message });
+      }
+      console.error("UserController.resendVerification error", err);
+      return res.status(500).json({ error: err?.message ?? "Failed to resend verification email" });
+    }
+  }
+
+  // POST /user/auth/forgot-password  Body: { email }
+  // Emails a one-hour, single-use reset link. Same answer whether or not the account exists.
+  // Rate limited per address and per IP, like resend-verification.
+  @httpPost("/auth/forgot-password")
+  async forgotPassword(req: Request, res: Response) {
+    try {
+      const { email } = await ForgotPasswordSchema.parseAsync(req.body);
+      if (await UserController.rateLimited(req, res, `email:${email.toLowerCase()}`, "reset_mail")) return;
+      await this.user.requestPasswordReset(email);
+      return res.status(202).json({ ok: true, next: "If an account exists for that email, a reset link is on its way." });
+    } catch (err: any) {
+      if (err?.issues) {
+        return res.status(400).json({
+          error: "ValidationError",
+          issues: err.issues.map((i: any) => ({ path: i.path.join("."), message: i.message })),
+        });
+      }
+      console.error("UserController.forgotPassword error", err);
+      return res.status(500).json({ error: "Failed to send reset email" });
+    }
+  }
+
+  // POST /user/auth/reset-password  Body: { token, password } — signs out every session
+  @httpPost("/auth/reset-password")
+  async resetPassword(req: Request, res: Response) {
+    try {
+      const { token, password } = await ResetPasswordSchema.parseAsync(req.body);
+      const result = await this.user.resetPassword(token, password);
+      return res.json(result);
+    } catch (err: any) {
+      if (err?.issues) {
+        return res.status(400).json({
+          error: "ValidationError",
+          issues: err.issues.map((i: any) => ({ path: i.path.join("."), message: i.message })),
+        });
+      }
+      if (err?.message === "Invalid or expired token") return res.status(400).json({ error: err.message });
+      console.error("UserController.resetPassword error", err);
+      return res.status(500).json({ error: err?.message ?? "Password reset failed" });
+    }
+  }
+
+  // POST /user/auth/change-password  Body: { currentPassword?, newPassword }
+  // currentPassword may be omitted only by accounts without a password (social sign-in).
+  // Other sessions are signed out.
+  @httpPost("/auth/change-password", AuthMiddleware)
+  async changePassword(req: Request, res: Response) {
+    try {
+      const body = await ChangePasswordSchema.parseAsync(req.body);
+      const result = await this.user.changePassword(req.user!.id, req.user!.sid, body);
+      return res.json(result);
+    } catch (err: any) {
+      if (err?.issues) {
+        return res.status(400).json({
+          error: "ValidationError",
+          issues: err.issues.map((i: any) => ({ path: i.path.join("."), message: i.message })),
+        });
+      }
+      switch (err?.message) {
+        case "Current password is required": return res.status(400).json({ error: err.message });
+        case "Current password is incorrect": return res.status(403).json({ error: err.message });
+        case "User not found": return res.status(404).json({ error: err.message });
+      }
+      console.error("UserController.changePassword error", err);
+      return res.status(500).json({ error: err?.message ?? "Password change failed" });
+    }
+  }
+
+  // GET /user/sessions — signed-in devices; `current` marks the caller's
+  @httpGet("/sessions", AuthMiddleware)
+  async listSessions(req: Request, res: Response) {
+    try {
+      res.setHeader("Cache-Control", "no-store");
+      return res.json({ sessions: await this.sessions.list(req.user!.id, req.user!.sid) });
+    } catch (err: any) {
+      console.error("UserController.listSessions error", err);
+      return res.status(500).json({ error: err?.message ?? "Failed to list sessions" });
+    }
+  }
+
+  // DELETE /user/sessions[?others=true] — log out everywhere (or everywhere else)
+  @httpDelete("/sessions", AuthMiddleware)
+  async revokeAllSessions(req: Request, res: Response) {
+    try {
+      const keepCurrent = req.query.others === "true";
+      const result = await this.sessions.revokeAll(req.user!.id, keepCurrent ? req.user!.sid : undefined);
+      if (!keepCurrent) this.auth.clearSessionCookie(res);
+      return res.json(result);
+    } catch (err: any) {
+      console.error("UserController.revokeAllSessions error", err);
+      return res.status(500).json({ error: err?.message ?? "Failed to revoke sessions" });
+    }
+  }
+
+  // DELETE /user/sessions/:id — sign one device out
+  @httpDelete("/sessions/:id", AuthMiddleware)
+  async revokeSession(req: Request, res: Response) {
+    try {
+      const result = await this.sessions.revoke(req.user!.id, req.params.id);
+      if (req.params.id === req.user!.sid) this.auth.clearSessionCookie(res);
+      return res.json(result);
+    } catch (err: any) {
+      if (err?.message === "Session not found") return res.status(404).json({ error: err.message });
+      console.error("UserController.revokeSession error", err);
+      return res.status(500).json({ error: err?.message ?? "Failed to revoke session" });
+    }
+  }
+
+  // GET /user/me/loved?page=1&limit=20
+  // Sets the caller has loved, populated like the GET /sets listing.
+  @httpGet("/me/loved", AuthMiddleware)
+  async lovedSets(req: Request, res: Response) {
+    try {
+      const { page, limit } = await PaginationQuerySchema.parseAsync(req.query);
+      const result = await this.sets.listLoved(req.user!.id, page, limit);
+      return res.json(result);
+    } catch (err: any) {
+      if (err?.issues) {
+        return res.status(400).json({
+          error: "ValidationError",
+          issues: err.issues.map((i: any) => ({ path: i.path.join("."), message: i.message })),
+        });
+      }
+      console.error("UserController.lovedSets error", err);
+      return res.status(500).json({ error: err?.message ?? "Failed to fetch loved sets" });
+    }
+  }
+
+  // GET /user/me/deleted-sets — the caller's trash (soft-deleted sets they own)
+  @httpGet("/me/deleted-sets", AuthMiddleware)
+  async deletedSets(req: Request, res: Response) {
+    try {
+      const sets = await this.sets.listDeleted(req.user!.id);
+      return res.json({ sets });
+    } catch (err: any) {
+      console.error("UserController.deletedSets error", err);
+      return res.status(500).json({ error: err?.message ?? "Failed to fetch deleted sets" });
+    }
+  }
+
+  // GET /user/me/invitations — pending set collaboration invites for the caller
+  @httpGet("/me/invitations", AuthMiddleware)
+  async myInvitations(req: Request, res: Response) {
+    try {
+      const invitations = await this.collaborators.listMyInvitations(req.user!.id);
+      return res.json({ invitations });
+    } catch (err: any) {
+      console.error("UserController.myInvitations error", err);
+      return res.status(500).json({ error: err?.message ?? "Failed to fetch invitations" });
+    }
+  }
+
   // Return a full user doc (populates referenced sets). Request body: { userId: string }
-  // Protected route so only authenticated callers can request user data.
+  // Protected route so only authenticated callers can request user data. Only sets the
+  // caller may see are included, without share tokens or review internals.
   @httpPost("/by-id", AuthMiddleware)
   async byId(req: Request, res: Response) {
     try {
@@ -224,7 +539,7 @@ export default class UserController implements interfaces.Controller {
 
       // Populate referenced sets. identities is embedded so will be included.
       const u = await User.findById(userId)
-        .populate({ path: "sets", model: "Set" })
+        .populate(SetRepository.visiblePopulate(req.user!.id))
         .lean();
 
       if (!u) return res.status(404).json({ error: "User not found" });
@@ -0,0 +1,70 @@
+// src/infra/events.ts
+import type { RedisClientType } from "redis";
+import { redisClient } from "./redis";
+
+// ---- Redis pub/sub ----
+// Publishing uses the shared client. A subscribed connection can't run other commands,
+// so subscriptions share one duplicate connection, created on first use, and fan out
+// locally to every listener of a channel (e.g. one per open SSE stream).
+
+type Listener = (payload: any) => void;
+
+const listeners = new Map<string, Set<Listener>>();
+let subscriber: Promise<RedisClientType> | undefined;
+
+function getSubscriber() {
+  if (!subscriber) {
+    const connecting = (async () => {
+      const client = redisClient.duplicate() as RedisClientType;
+      client.on("error", (err) => console.error("Redis subscriber error:", err));
+      await client.connect();
+      return client;
+    })();
+    // let the next caller retry if the connection failed
+    connecting.catch(() => { if (subscriber === connecting) subscriber = undefined; });
+    subscriber = connecting;
+  }
+  return subscriber;
+}
+
+function dispatch(message: string, channel: string) {
+  let payload: any;
+  try {
+    payload = JSON.parse(message);
+  } catch {
+    payload = message;
+  }
+  for (const listener of listeners.get(channel) ?? []) {
+    try {
+      listener(payload);
+    } catch (err) {
+      console.warn("Event listener failed", channel, err);
+    }
+  }
+}
+
+export async function publish(channel: string, payload: unknown) {
+  await redisClient.publish(channel, JSON.stringify(payload));
+}
+
+// Returns an unsubscribe function; the Redis subscription is dropped with its last listener.
+export async function subscribe(channel: string, listener: Listener) {
+  const client = await getSubscriber();
+  let set = listeners.get(channel);
+  if (!set) {
+    set = new Set();
+    listeners.set(channel, set);
+    await client.subscribe(channel, dispatch);
+  }
+  set.add(listener);
+
+  return async () => {
+    const current = listeners.get(channel);
+    if (!current) return;
+    current.delete(listener);
+    if (current.size === 0) {
+      listeners.delete(channel);
+      await client.unsubscribe(channel).catch(() => undefined);
+    }
+  };
+}
@@ -0,0 +1,19 @@
+// src/infra/rateLimit.ts
+import { redisClient } from "./redis";
+
+const KEY_PREFIX = "rate_limit:";
+
+// ---- Fixed-window rate limiting ----
+// One counter per key and window, shared by every instance. `retryAfter` (seconds) is
+// set when the call is over the limit.
+export async function hitRateLimit(key: string, limit: number, windowSeconds: number) {
+  const redisKey = `${KEY_PREFIX}${key}`;
+  const count = await redisClient.incr(redisKey);
+  if (count === 1) await redisClient.expire(redisKey, windowSeconds);
+
+  if (count <= limit) return { allowed: true, retryAfter: 0 };
+  const ttl = await redisClient.ttl(redisKey);
+  // a counter left without expiry (crash between INCR and EXPIRE) would block forever
+  if (ttl < 0) await redisClient.expire(redisKey, windowSeconds);
+  return { allowed: false, retryAfter: ttl > 0 ? ttl : windowSeconds };
+}
@@ -0,0 +1,20 @@
+// src/interfaces/collaborator.interface.ts
+import { z } from "zod";
+
+export const CollaboratorRoleSchema = z.enum(["editor", "suggester", "viewer"]);
+
+export const InviteCollaboratorSchema = z.object({
+  // invite an existing account by username OR email
+  username: z.string().min(1).optional(),
+  email: z.string().email().optional(),
+  role: CollaboratorRoleSchema.optional().default("editor"),
+})
+  .refine(obj => !!obj.username || !!obj.email, { message: "username or email is required" });
+
+export interface IInviteCollaboratorInput extends z.infer<typeof InviteCollaboratorSchema> { }
+
+export const UpdateCollaboratorRoleSchema = z.object({
+  role: CollaboratorRoleSchema,
+});
+
+export interface IUpdateCollaboratorRoleInput extends z.infer<typeof UpdateCollaboratorRoleSchema> { }
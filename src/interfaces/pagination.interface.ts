@@ -0,0 +1,10 @@
+// src/interfaces/pagination.interface.ts
+import { z } from "zod";
+
+// query-string pagination (?page=1&limit=20); values arrive as strings so coerce them
+export const PaginationQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).optional().default(1),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+});
+
+export interface IPaginationQuery extends z.infer<typeof PaginationQuerySchema> { }
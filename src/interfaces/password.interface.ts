@@ -0,0 +1,24 @@
+// src/interfaces/password.interface.ts
+import { z } from "zod";
+
+// same rules as sign-up
+export const PasswordSchema = z.string().min(8).max(128).refine((val) => /[A-Z]/.test(val), { message: "Must include at least one uppercase letter" }).refine((val) => /[a-z]/.test(val), { message: "Must include at least one lowercase letter" }).refine((val) => /[0-9]/.test(val), { message: "Must include at least one number" });
+
+export const ForgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+export const ResetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: PasswordSchema,
+});
+
+// currentPassword is required unless the account has no password yet (social sign-in)
+export const ChangePasswordSchema = z.object({
+  currentPassword: z.string().min(1).optional(),
+  newPassword: PasswordSchema,
+});
+
+export interface IForgotPasswordInput extends z.infer<typeof ForgotPasswordSchema> { }
+export interface IResetPasswordInput extends z.infer<typeof ResetPasswordSchema> { }
+export interface IChangePasswordInput extends z.infer<typeof ChangePasswordSchema> { }
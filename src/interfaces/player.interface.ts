@@ -0,0 +1,47 @@
+// src/interfaces/player.interface.ts
+import { z } from "zod";
+
+const DeviceId = z.string().min(1).optional();
+
+export const PlayTrackSchema = z.object({
+  trackId: z.string().min(1, "Missing trackId"),
+  deviceId: DeviceId,
+});
+
+export interface IPlayTrackInput extends z.infer<typeof PlayTrackSchema> { }
+
+// pause / resume / next / previous
+export const DeviceTargetSchema = z.object({
+  deviceId: DeviceId,
+});
+
+export const TransferPlaybackSchema = z.object({
+  deviceId: z.string().min(1, "Missing deviceId"),
+  // true starts playback on the new device; otherwise the current play/pause state is kept
+  play: z.boolean().optional().default(false),
+});
+
+export const SeekSchema = z.object({
+  positionMs: z.number().int().min(0),
+  deviceId: DeviceId,
+});
+
+export const VolumeSchema = z.object({
+  volumePercent: z.number().min(0).max(100),
+  deviceId: DeviceId,
+});
+
+export const RepeatSchema = z.object({
+  state: z.enum(["track", "context", "off"]),
+  deviceId: DeviceId,
+});
+
+export const ShuffleSchema = z.object({
+  state: z.boolean(),
+  deviceId: DeviceId,
+});
+
+export const QueueTrackSchema = z.object({
+  trackId: z.string().min(1, "Missing trackId"),
+  deviceId: DeviceId,
+});
@@ -0,0 +1,14 @@
+// src/interfaces/queue.interface.ts
+import { z } from "zod";
+
+// POST /sets/:setId/queue — songs are read from the set on the server
+export const QueueSetSchema = z.object({
+  playNow: z.boolean().optional(),
+  // older clients sent playFirst
+  playFirst: z.boolean().optional(),
+  deviceId: z.string().min(1).optional(),
+  // playlist name shown in Spotify; defaults to the set name
+  name: z.string().min(1).max(100).optional(),
+});
+
+export interface IQueueSetInput extends z.infer<typeof QueueSetSchema> { }
@@ -0,0 +1,28 @@
+// src/interfaces/room.interface.ts
+import { z } from "zod";
+
+const ObjectIdString = z.string().regex(/^[a-f0-9]{24}$/i, "Invalid id");
+
+export const CreateRoomSchema = z.object({
+  setId: ObjectIdString,
+  startIndex: z.number().int().min(0).optional(),
+  deviceId: z.string().min(1).optional(),
+});
+
+export interface ICreateRoomInput extends z.infer<typeof CreateRoomSchema> { }
+
+// join / sync: optionally pick (or switch) the Spotify device to play on
+export const RoomDeviceSchema = z.object({
+  deviceId: z.string().min(1).optional(),
+});
+
+export const RoomControlSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("play") }),
+  z.object({ action: z.literal("pause") }),
+  z.object({ action: z.literal("seek"), positionMs: z.number().int().min(0) }),
+  z.object({ action: z.literal("next") }),
+  z.object({ action: z.literal("previous") }),
+  z.object({ action: z.literal("track"), index: z.number().int().min(0), positionMs: z.number().int().min(0).optional() }),
+]);
+
+export type IRoomControlInput = z.infer<typeof RoomControlSchema>;
@@ -12,3 +12,12 @@ export type SpotifySearchInput = z.infer<typeof SpotifySearchSchema>;
 
 // or export as interface if you prefer the `interface` keyword
 export interface ISpotifySearchInput extends SpotifySearchInput { }
+
+// GET /search — our own sets + cached tracks (no Spotify connection required)
+export const CatalogSearchQuerySchema = z.object({
+  q: z.string().trim().min(1, "q is required").max(200),
+  type: z.enum(["all", "sets", "tracks"]).optional().default("all"),
+  limit: z.coerce.number().int().min(1).max(50).optional().default(10),
+});
+
+export interface ICatalogSearchQuery extends z.infer<typeof CatalogSearchQuerySchema> { }
@@ -20,6 +20,8 @@ export const CreateSetSchema = z.object({
   collaborators: z.array(z.string()).optional().default([]),
   // images optional; if provided limit to max 5 valid URLs
   images: z.array(z.string().url()).optional().default([]),
+  // private drafts -> unlisted (share link) -> public (listed + searchable)
+  visibility: z.enum(["private", "unlisted", "public"]).optional().default("public"),
   // NOTE: suggestions, lovedBy, lastCollaboration are NOT client-provided on create.
   // They will be initialized by the server/model as empty/undefined.
   createdBy: z.string().min(1)
@@ -6,6 +6,7 @@ export const UpdateSetSchema = z.object({
   description: z.string().max(500).optional().nullable(),
   // send full new tag list (replace); allow empty array if you want to clear
   tags: z.array(z.string().min(1)).optional(),
+  visibility: z.enum(["private", "unlisted", "public"]).optional(),
 })
   .refine(obj => Object.keys(obj).length > 0, { message: "No fields to update" });
 
@@ -13,6 +13,11 @@ export const RemoveSongSchema = z.object({
 });
 export interface IRemoveSongInput extends z.infer<typeof RemoveSongSchema> { }
 
+export const RemoveSongsSchema = z.object({
+  songs: z.array(TrackId).min(1, "At least one trackId"),
+});
+export interface IRemoveSongsInput extends z.infer<typeof RemoveSongsSchema> { }
+
 export const ReorderSongSchema = z.object({
   fromIndex: z.number().int().min(0),
   toIndex: z.number().int().min(0),
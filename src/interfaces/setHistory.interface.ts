@@ -0,0 +1,16 @@
+// src/interfaces/setHistory.interface.ts
+import { z } from "zod";
+
+const Version = z.coerce.number().int().min(1);
+
+export const VersionParamSchema = z.object({
+  version: Version,
+});
+
+// GET /sets/:setId/history/diff?from=3&to=5  (to defaults to the latest version)
+export const VersionDiffQuerySchema = z.object({
+  from: Version,
+  to: Version.optional(),
+});
+
+export interface IVersionDiffQuery extends z.infer<typeof VersionDiffQuerySchema> { }
@@ -0,0 +1,24 @@
+// src/interfaces/setList.interface.ts
+import { z } from "zod";
+
+const ObjectIdString = z.string().regex(/^[a-f0-9]{24}$/i, "Invalid id");
+
+// ?tag=a&tag=b and ?tag=a,b are both accepted
+const TagList = z
+  .union([z.string(), z.array(z.string())])
+  .transform(v => (Array.isArray(v) ? v : [v]).flatMap(t => t.split(",")).map(t => t.trim()).filter(Boolean));
+
+export const ListSetsQuerySchema = z.object({
+  sort: z.enum(["recent", "loved", "collab"]).optional().default("recent"),
+  tag: TagList.optional(),
+  createdBy: ObjectIdString.optional(),
+  collaborator: ObjectIdString.optional(),
+  songId: z.string().min(1).optional(),
+  // narrows the visible sets, e.g. a signed-in owner listing their private drafts
+  visibility: z.enum(["private", "unlisted", "public"]).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+  // opaque value returned as nextCursor by the previous page
+  cursor: z.string().min(1).optional(),
+});
+
+export interface IListSetsQuery extends z.infer<typeof ListSetsQuerySchema> { }
@@ -0,0 +1,30 @@
+// src/interfaces/spotifyPlaylist.interface.ts
+import { z } from "zod";
+
+// POST /sets/:setId/spotify/save
+export const SaveToSpotifySchema = z.object({
+  // playlist name in Spotify; defaults to the set name
+  name: z.string().min(1).max(100).optional(),
+  public: z.boolean().optional().default(false),
+});
+
+export interface ISaveToSpotifyInput extends z.infer<typeof SaveToSpotifySchema> { }
+
+// POST /sets/:setId/spotify/sync — without `apply` this only reports the diff
+export const SyncFromSpotifySchema = z.object({
+  apply: z.boolean().optional().default(false),
+});
+
+export interface ISyncFromSpotifyInput extends z.infer<typeof SyncFromSpotifySchema> { }
+
+// POST /sets/import — a playlist or album link (open.spotify.com URL or spotify: URI)
+export const ImportSetSchema = z.object({
+  source: z.string().min(1, "source required"),
+  // override what comes from Spotify
+  name: z.string().min(1).max(120).optional(),
+  description: z.string().max(500).nullable().optional(),
+  tags: z.array(z.string().min(1)).optional().default([]),
+  visibility: z.enum(["private", "unlisted", "public"]).optional().default("public"),
+});
+
+export interface IImportSetInput extends z.infer<typeof ImportSetSchema> { }
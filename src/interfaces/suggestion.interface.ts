@@ -0,0 +1,25 @@
+// src/interfaces/suggestion.interface.ts
+import { z } from "zod";
+
+const TrackId = z.string().min(1, "trackId required");
+
+export const CreateSuggestionSchema = z.object({
+  // full proposed order; when present it wins over adds/removes/reorder
+  proposedQueue: z.array(TrackId).optional(),
+  adds: z.array(TrackId).optional(),
+  removes: z.array(TrackId).optional(),
+  reorder: z.array(z.object({
+    trackId: TrackId,
+    toIndex: z.number().int().min(0),
+  })).optional(),
+})
+  .refine(
+    (obj) => [obj.proposedQueue, obj.adds, obj.removes, obj.reorder].some((v) => Array.isArray(v) && v.length > 0),
+    { message: "Suggestion must propose at least one change" }
+  );
+
+export interface ICreateSuggestionInput extends z.infer<typeof CreateSuggestionSchema> { }
+
+export const ListSuggestionsQuerySchema = z.object({
+  status: z.enum(["open", "accepted", "rejected"]).optional(),
+});
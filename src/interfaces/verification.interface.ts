@@ -0,0 +1,17 @@
+// src/interfaces/verification.interface.ts
+import { z } from "zod";
+
+// pendingToken: from the OAuth response body; the redirect flow sends it as the gv_pending cookie
+export const SetEmailSchema = z.object({
+  email: z.string().email(),
+  pendingToken: z.string().min(1).optional(),
+});
+
+// either the pending token (social sign-up) or the address of a password sign-up
+export const ResendVerificationSchema = z.object({
+  pendingToken: z.string().min(1).optional(),
+  email: z.string().email().optional(),
+});
+
+export interface ISetEmailInput extends z.infer<typeof SetEmailSchema> { }
+export interface IResendVerificationInput extends z.infer<typeof ResendVerificationSchema> { }
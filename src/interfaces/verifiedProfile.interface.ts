@@ -3,6 +3,7 @@ export type VerifiedProfile = {
   providerUserId: string;   // Google sub, Apple sub, X user_id
   email?: string;
   emailVerifiedByProvider: boolean;
+  isPrivateEmail?: boolean; // Apple "Hide My Email" relay address
   firstName?: string;
   lastName?: string;
 };
\ No newline at end of file
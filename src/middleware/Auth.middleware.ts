@@ -3,45 +3,91 @@ import "reflect-metadata";
 import { injectable } from "inversify";
 import { BaseMiddleware } from "inversify-express-utils";
 import * as express from "express";
-import jwt from "jsonwebtoken";
+import AuthTokenService, { SESSION_COOKIE, SessionUser } from "../services/AuthToken.service";
+import SessionService from "../services/Session.service";
 
 // augment Express.Request with a user field
 declare global {
   namespace Express {
     interface Request {
-      user?: {
-        id: string;
-        username: string;
-        plan: "free" | "pro";
-      };
+      user?: SessionUser;
     }
   }
 }
 
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+type AuthResult =
+  | { user: SessionUser }
+  | { status: number; error: string };
+
+// The session comes from `Authorization: Bearer <jwt>` (API clients) or the httpOnly
+// gv_session cookie (browsers). Browsers attach cookies to cross-site requests too, so
+// cookie-authenticated writes also need the CSRF header; bearer tokens are never sent
+// automatically and don't. Tokens of revoked sessions are refused until they expire.
+async function authenticate(auth: AuthTokenService, sessions: SessionService, req: express.Request): Promise<AuthResult | undefined> {
+  const [, bearer] = (req.headers.authorization || "").split(" ");
+  const cookie = req.cookies?.[SESSION_COOKIE] as string | undefined;
+  const token = bearer || cookie;
+  if (!token) return undefined;
+
+  let user: SessionUser;
+  try {
+    user = auth.verifySession(token);
+  } catch {
+    return { status: 401, error: "Invalid or expired token" };
+  }
+
+  if (!bearer && !SAFE_METHODS.includes(req.method) && !auth.checkCsrf(req)) {
+    return { status: 403, error: "Missing or invalid CSRF token" };
+  }
+  if (await sessions.isRevoked(user.sid)) return { status: 401, error: "Session revoked" };
+  return { user };
+}
+
 @injectable()
 export class AuthMiddleware extends BaseMiddleware {
-  public handler(req: express.Request, res: express.Response, next: express.NextFunction): void {
-    try {
-      const auth = req.headers.authorization || "";
-      const [, token] = auth.split(" ");
-      if (!token) {
-        res.status(401).json({ error: "Missing bearer token" });
-        return; // ensure void
-      }
+  constructor(private readonly auth: AuthTokenService, private readonly sessions: SessionService) {
+    super();
+  }
 
-      const secret = process.env.JWT_SECRET || "dev-secret";
-      const payload = jwt.verify(token, secret) as {
-        sub: string; username: string; plan: "free" | "pro";
-      };
+  public async handler(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+    let result: AuthResult | undefined;
+    try {
+      result = await authenticate(this.auth, this.sessions, req);
+    } catch (err) {
+      // Redis unavailable: fail closed
+      console.error("AuthMiddleware error", err);
+      res.status(503).json({ error: "Authentication unavailable" });
+      return;
+    }
+    if (!result) {
+      res.status(401).json({ error: "Missing bearer token or session cookie" });
+      return; // ensure void
+    }
+    if ("error" in result) {
+      res.status(result.status).json({ error: result.error });
+      return; // ensure void
+    }
 
-      req.user = { id: payload.sub, username: payload.username, plan: payload.plan };
-      next(); // continue
+    req.user = result.user;
+    next(); // continue
+  }
+}
 
-    } catch {
 
-      res.status(401).json({ error: "Invalid or expired token" });
-      return; // ensure void
+// Same token handling as AuthMiddleware, but anonymous callers (or bad tokens) pass
+// through without req.user — for routes that are public but personalize when signed in.
+@injectable()
+export class OptionalAuthMiddleware extends BaseMiddleware {
+  constructor(private readonly auth: AuthTokenService, private readonly sessions: SessionService) {
+    super();
+  }
 
-    }
+  public async handler(req: express.Request, _res: express.Response, next: express.NextFunction): Promise<void> {
+    // invalid/expired/revoked token or failed CSRF check: treat as anonymous
+    const result = await authenticate(this.auth, this.sessions, req).catch(() => undefined);
+    if (result && "user" in result) req.user = result.user;
+    next();
   }
 }
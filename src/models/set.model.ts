@@ -14,6 +14,22 @@ export type SetSuggestion = {
   reviewer?: Types.ObjectId;
 };
 
+// owner is implicit (createdBy); everyone in `collaborators` gets one of these
+export type CollaboratorRole = "editor" | "suggester" | "viewer";
+export type SetRole = "owner" | CollaboratorRole;
+
+export type SetInvitation = {
+  _id: Types.ObjectId;
+  invitee: Types.ObjectId;
+  invitedBy: Types.ObjectId;
+  role: CollaboratorRole;
+  status: "pending" | "accepted" | "declined" | "revoked";
+  createdAt: Date;
+  respondedAt?: Date;
+};
+
+export type SetVisibility = "private" | "unlisted" | "public";
+
 export type SetSong = {
   id: string;
   title: string;
@@ -30,10 +46,23 @@ export interface SetDoc {
   images?: string[]; // persisted images URLs
   suggestions: SetSuggestion[];
   lovedBy: Types.ObjectId[];
+  // userId -> when they loved it; loves from before this existed have no entry
+  lovedAt?: Record<string, Date>;
   collaborators: Types.ObjectId[];
+  // userId -> role; collaborators without an entry are legacy editors
+  collaboratorRoles?: Record<string, CollaboratorRole>;
+  invitations: SetInvitation[];
   lastCollaboration?: { by: Types.ObjectId; at: Date; suggestionId?: Types.ObjectId };
   tags: string[];
   createdBy: Types.ObjectId;
+  // soft delete: set while the set sits in the owner's trash
+  deletedAt?: Date | null;
+  // bumped on every content change; matches the latest SetVersion snapshot
+  version: number;
+  // sets created before visibility existed have no field and are public
+  visibility?: SetVisibility;
+  // revocable link secret; grants read access while the set is unlisted
+  shareToken?: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -52,6 +81,17 @@ const SuggestionSchema = new Schema<SetSuggestion>(
   { _id: true, timestamps: { createdAt: "createdAt", updatedAt: false } }
 );
 
+const InvitationSchema = new Schema<SetInvitation>(
+  {
+    invitee: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    invitedBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    role: { type: String, enum: ["editor", "suggester", "viewer"], default: "editor" },
+    status: { type: String, enum: ["pending", "accepted", "declined", "revoked"], default: "pending" },
+    respondedAt: Date,
+  },
+  { _id: true, timestamps: { createdAt: "createdAt", updatedAt: false } }
+);
+
 const SongSchema = new Schema(
   {
     id: { type: String, required: true },
@@ -71,7 +111,10 @@ const SetSchema = new Schema<SetDoc>(
     images: { type: [String], default: [] },
     suggestions: { type: [SuggestionSchema], default: [] },
     lovedBy: { type: [Schema.Types.ObjectId], ref: "User", default: [] },
+    lovedAt: { type: Map, of: Date, default: {} },
     collaborators: [{ type: Schema.Types.ObjectId, ref: "User" }],
+    collaboratorRoles: { type: Map, of: { type: String, enum: ["editor", "suggester", "viewer"] }, default: {} },
+    invitations: { type: [InvitationSchema], default: [] },
     lastCollaboration: {
       by: { type: Schema.Types.ObjectId, ref: "User" },
       at: Date,
@@ -79,8 +122,23 @@ const SetSchema = new Schema<SetDoc>(
     },
     tags: { type: [String], required: true, index: true },
     createdBy: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+    deletedAt: { type: Date, default: null, index: true },
+    version: { type: Number, default: 0 },
+    visibility: { type: String, enum: ["private", "unlisted", "public"], default: "public", index: true },
+    // never part of a read unless asked for: it grants access to unlisted sets
+    shareToken: { type: String, select: false },
   },
   { timestamps: true }
 );
 
+// GET /sets pages newest-first and filters by song id
+SetSchema.index({ createdAt: -1, _id: -1 });
+SetSchema.index({ "songs.id": 1 });
+SetSchema.index({ shareToken: 1 }, { unique: true, partialFilterExpression: { shareToken: { $type: "string" } } });
+// GET /search — one text index per collection, weighted toward names
+SetSchema.index(
+  { name: "text", tags: "text", "songs.title": "text", "songs.artists": "text", description: "text" },
+  { name: "set_text", weights: { name: 10, tags: 5, "songs.title": 3, "songs.artists": 3, description: 1 } }
+);
+
 export const Set = models.Set || model<SetDoc>("Set", SetSchema);
@@ -0,0 +1,77 @@
+// src/models/setVersion.model.ts
+import { Schema, model, models, Types } from "mongoose";
+import type { SetSong } from "./set.model";
+
+export type SetVersionAction =
+  | "create"
+  | "songs.add"
+  | "songs.replace"
+  | "songs.remove"
+  | "songs.move"
+  | "tags.add"
+  | "tags.remove"
+  | "metadata.update"
+  | "suggestion.accept"
+  | "spotify.sync"
+  | "revert";
+
+// the editable content of a set at a point in time
+export type SetSnapshot = {
+  name: string;
+  description?: string | null;
+  tags: string[];
+  images: string[];
+  songs: SetSong[];
+};
+
+export interface SetVersionDoc {
+  _id: Types.ObjectId;
+  set: Types.ObjectId;
+  version: number;
+  author: Types.ObjectId;
+  action: SetVersionAction;
+  snapshot: SetSnapshot;
+  suggestionId?: Types.ObjectId;
+  revertedTo?: number;
+  createdAt: Date;
+}
+
+const SnapshotSongSchema = new Schema(
+  {
+    id: { type: String, required: true },
+    title: String,
+    artists: String,
+    image: String,
+  },
+  { _id: false }
+);
+
+const SetVersionSchema = new Schema<SetVersionDoc>(
+  {
+    set: { type: Schema.Types.ObjectId, ref: "Set", required: true },
+    version: { type: Number, required: true },
+    author: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    action: {
+      type: String,
+      enum: [
+        "create", "songs.add", "songs.replace", "songs.remove", "songs.move",
+        "tags.add", "tags.remove", "metadata.update", "suggestion.accept", "spotify.sync", "revert",
+      ],
+      required: true,
+    },
+    snapshot: {
+      name: String,
+      description: String,
+      tags: [String],
+      images: [String],
+      songs: { type: [SnapshotSongSchema], default: [] },
+    },
+    suggestionId: Schema.Types.ObjectId,
+    revertedTo: Number,
+  },
+  { timestamps: { createdAt: "createdAt", updatedAt: false } }
+);
+
+SetVersionSchema.index({ set: 1, version: -1 }, { unique: true });
+
+export const SetVersion = models.SetVersion || model<SetVersionDoc>("SetVersion", SetVersionSchema);
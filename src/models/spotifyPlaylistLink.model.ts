@@ -0,0 +1,38 @@
+// src/models/spotifyPlaylistLink.model.ts
+import { Schema, model, models, Types } from "mongoose";
+
+// A set saved to a user's Spotify library as a real playlist. One per user per set;
+// song edits on the set are pushed to every linked playlist.
+export interface SpotifyPlaylistLinkDoc {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  set: Types.ObjectId;
+  playlistId: string;
+  // Spotify's snapshot_id after our last write; a different value means it was edited in Spotify
+  snapshotId?: string | null;
+  // set when a push found the playlist edited in Spotify and left it alone; cleared by the next sync
+  conflictedAt?: Date | null;
+  // track ids in the order we last pushed
+  trackIds: string[];
+  syncedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SpotifyPlaylistLinkSchema = new Schema<SpotifyPlaylistLinkDoc>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    set: { type: Schema.Types.ObjectId, ref: "Set", required: true, index: true },
+    playlistId: { type: String, required: true },
+    snapshotId: { type: String, default: null },
+    conflictedAt: { type: Date, default: null },
+    trackIds: { type: [String], default: [] },
+    syncedAt: Date,
+  },
+  { timestamps: true }
+);
+
+SpotifyPlaylistLinkSchema.index({ user: 1, set: 1 }, { unique: true });
+
+export const SpotifyPlaylistLink =
+  models.SpotifyPlaylistLink || model<SpotifyPlaylistLinkDoc>("SpotifyPlaylistLink", SpotifyPlaylistLinkSchema);
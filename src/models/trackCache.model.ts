@@ -28,6 +28,12 @@ const TrackCacheSchema = new Schema<TrackCacheDoc>(
   { timestamps: { createdAt: false, updatedAt: true } }
 );
 
+// GET /search
+TrackCacheSchema.index(
+  { name: "text", "artists.name": "text", "album.name": "text" },
+  { name: "track_text", weights: { name: 5, "artists.name": 3, "album.name": 1 } }
+);
+
 const TrackCache = models.TrackCache || model<TrackCacheDoc>("TrackCache", TrackCacheSchema);
 
 export default TrackCache
\ No newline at end of file
@@ -25,6 +25,9 @@ export type UserDoc = {
   // NEW:
   emailVerified: boolean;
   emailVerifiedAt?: Date;
+  // "set_email": typed in through POST /user/auth/email, so never auto-linked to a
+  // provider identity; unset for sign-up and provider addresses
+  emailSource?: "set_email" | null;
   identities: UserIdentity[];
 
   createdAt: Date;
@@ -55,6 +58,7 @@ const UserSchema = new Schema<UserDoc>(
     // NEW
     emailVerified: { type: Boolean, default: false },
     emailVerifiedAt: Date,
+    emailSource: { type: String, enum: ["set_email"], default: null },
     identities: { type: [IdentitySchema], default: [] },
   },
   { timestamps: true }
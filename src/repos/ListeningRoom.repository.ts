@@ -0,0 +1,104 @@
+// src/repos/ListeningRoom.repository.ts
+import { injectable } from "inversify";
+import { redisClient } from "../infra/redis";
+
+const ROOM_PREFIX = "listening_room:"; // roomId -> room state (JSON)
+const MEMBERS_PREFIX = "listening_room_members:"; // roomId -> hash of userId -> member (JSON)
+// rooms nobody touches for half a day are gone; every write pushes this out again
+const TTL_SECONDS = 60 * 60 * 12;
+
+// Compare-and-set on the room's version: the write only lands if nobody changed the room
+// since it was read, so overlapping host commands can't silently overwrite each other.
+// -1 = room gone, 0 = version moved on, 1 = written. Also slides both keys' expiry.
+const REPLACE_SCRIPT = `
+local raw = redis.call("GET", KEYS[1])
+if not raw then
+  return -1
+end
+if (cjson.decode(raw).version or 0) ~= tonumber(ARGV[1]) then
+  return 0
+end
+redis.call("SET", KEYS[1], ARGV[2], "EX", ARGV[3])
+redis.call("EXPIRE", KEYS[2], ARGV[3])
+return 1`;
+
+export type ListeningRoom = {
+  roomId: string;
+  setId: string;
+  hostId: string;
+  name: string;
+  // the set's track order when the room started
+  trackIds: string[];
+  // from TrackCache; null when unknown, so the position can't be advanced past that track
+  durations: (number | null)[];
+  index: number;
+  // playback position at `anchoredAt` (epoch ms); while playing the real position keeps moving
+  positionMs: number;
+  anchoredAt: number;
+  isPlaying: boolean;
+  // bumped on every playback change; rooms from before it existed have none (0)
+  version?: number;
+  createdAt: number;
+};
+
+export type RoomMember = {
+  userId: string;
+  deviceId?: string;
+  joinedAt: number;
+};
+
+@injectable()
+export default class ListeningRoomRepository {
+
+  private roomKey(roomId: string) {
+    return `${ROOM_PREFIX}${roomId}`;
+  }
+
+  private membersKey(roomId: string) {
+    return `${MEMBERS_PREFIX}${roomId}`;
+  }
+
+  async get(roomId: string): Promise<ListeningRoom | undefined> {
+    const raw = await redisClient.get(this.roomKey(roomId));
+    return raw ? JSON.parse(raw) as ListeningRoom : undefined;
+  }
+
+  // NX on create so a (very unlikely) id collision never overwrites a live room
+  async create(room: ListeningRoom) {
+    const ok = await redisClient.set(this.roomKey(room.roomId), JSON.stringify(room), { EX: TTL_SECONDS, NX: true });
+    return ok === "OK";
+  }
+
+  // Stores `room` as the next version if the stored one is still `expectedVersion`
+  async replace(room: ListeningRoom, expectedVersion: number): Promise<"ok" | "conflict" | "missing"> {
+    const res = await redisClient.eval(REPLACE_SCRIPT, {
+      keys: [this.roomKey(room.roomId), this.membersKey(room.roomId)],
+      arguments: [String(expectedVersion), JSON.stringify({ ...room, version: expectedVersion + 1 }), String(TTL_SECONDS)],
+    });
+    return res === 1 ? "ok" : res === 0 ? "conflict" : "missing";
+  }
+
+  async addMember(roomId: string, member: RoomMember) {
+    await redisClient.hSet(this.membersKey(roomId), member.userId, JSON.stringify(member));
+    await redisClient.expire(this.membersKey(roomId), TTL_SECONDS);
+  }
+
+  async getMember(roomId: string, userId: string): Promise<RoomMember | undefined> {
+    const raw = await redisClient.hGet(this.membersKey(roomId), userId);
+    return raw ? JSON.parse(raw) as RoomMember : undefined;
+  }
+
+  async removeMember(roomId: string, userId: string) {
+    return (await redisClient.hDel(this.membersKey(roomId), userId)) > 0;
+  }
+
+  async members(roomId: string): Promise<RoomMember[]> {
+    const all = await redisClient.hGetAll(this.membersKey(roomId));
+    return Object.values(all).map((raw) => JSON.parse(raw) as RoomMember);
+  }
+
+  async delete(roomId: string) {
+    await redisClient.del([this.roomKey(roomId), this.membersKey(roomId)]);
+  }
+
+}
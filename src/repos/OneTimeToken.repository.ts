@@ -0,0 +1,58 @@
+// src/repos/OneTimeToken.repository.ts
+import crypto from "crypto";
+import { injectable } from "inversify";
+import { redisClient } from "../infra/redis";
+import { randomString } from "../utils/pkce";
+
+// What a token may be used for; a token issued for one purpose is unknown to every other
+export type TokenPurpose = "password_reset";
+
+const KEY_PREFIX = "one_time_token:"; // <purpose>:<sha256(token)> -> { userId, email? } (JSON)
+const USER_PREFIX = "one_time_token_user:"; // <purpose>:<userId> -> sha256 of the outstanding token
+
+const sha256 = (v: string) => crypto.createHash("sha256").update(v).digest("base64url");
+
+// `email` is the address the link was mailed to, so using it can prove that address
+export type OneTimeTokenClaim = { userId: string; email?: string };
+
+// Single-use tokens for emailed links. Only hashes are stored, and each user has at most
+// one outstanding token per purpose: issuing a new one invalidates the last.
+@injectable()
+export default class OneTimeTokenRepository {
+
+  private key(purpose: TokenPurpose, hash: string) {
+    return `${KEY_PREFIX}${purpose}:${hash}`;
+  }
+
+  private userKey(purpose: TokenPurpose, userId: string) {
+    return `${USER_PREFIX}${purpose}:${userId}`;
+  }
+
+  async issue(purpose: TokenPurpose, claim: OneTimeTokenClaim, ttlSeconds: number) {
+    const { userId } = claim;
+    await this.revokeForUser(purpose, userId);
+
+    const token = randomString(32);
+    const hash = sha256(token);
+    await redisClient.set(this.key(purpose, hash), JSON.stringify(claim), { EX: ttlSeconds });
+    await redisClient.set(this.userKey(purpose, userId), hash, { EX: ttlSeconds });
+    return token;
+  }
+
+  // Returns the claim once; GETDEL makes a second use (or a concurrent one) find nothing
+  async consume(purpose: TokenPurpose, token: string): Promise<OneTimeTokenClaim | undefined> {
+    const hash = sha256(token);
+    const raw = await redisClient.getDel(this.key(purpose, hash));
+    if (!raw) return undefined;
+    // tokens issued before claims were JSON hold just the user id
+    const claim: OneTimeTokenClaim = raw.startsWith("{") ? JSON.parse(raw) : { userId: raw };
+    await redisClient.del(this.userKey(purpose, claim.userId));
+    return claim;
+  }
+
+  async revokeForUser(purpose: TokenPurpose, userId: string) {
+    const hash = await redisClient.getDel(this.userKey(purpose, userId));
+    if (hash) await redisClient.del(this.key(purpose, hash));
+  }
+
+}
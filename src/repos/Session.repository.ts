@@ -0,0 +1,117 @@
+// src/repos/Session.repository.ts
+import { injectable } from "inversify";
+import { redisClient } from "../infra/redis";
+
+const SESSION_PREFIX = "session:"; // sid -> hash (see SessionRecord)
+const USER_SESSIONS_PREFIX = "user_sessions:"; // userId -> set of sids (may hold expired ones; pruned on read)
+// sid -> "1" while access tokens minted for a revoked session could still be presented
+const REVOKED_PREFIX = "session_revoked:";
+
+export type SessionRecord = {
+  sid: string;
+  userId: string;
+  remember: boolean;
+  createdAt: number;
+  lastUsedAt: number;
+  userAgent?: string;
+  ip?: string;
+  // sha256 of the current refresh token, and of the one it replaced (for the grace window)
+  refreshHash: string;
+  prevHash?: string;
+  rotatedAt?: number;
+};
+
+// Swap the refresh hash only if the caller presented the current one, so two instances
+// refreshing the same token can't both win. Also slides the session's expiry.
+const ROTATE_SCRIPT = `
+if redis.call("HGET", KEYS[1], "refreshHash") ~= ARGV[1] then
+  return 0
+end
+redis.call("HSET", KEYS[1], "refreshHash", ARGV[2], "prevHash", ARGV[1], "rotatedAt", ARGV[3], "lastUsedAt", ARGV[3])
+redis.call("EXPIRE", KEYS[1], ARGV[4])
+return 1`;
+
+@injectable()
+export default class SessionRepository {
+
+  private key(sid: string) {
+    return `${SESSION_PREFIX}${sid}`;
+  }
+
+  private userKey(userId: string) {
+    return `${USER_SESSIONS_PREFIX}${userId}`;
+  }
+
+  private static toRecord(raw: Record<string, string>): SessionRecord | undefined {
+    if (!raw.sid || !raw.userId || !raw.refreshHash) return undefined;
+    return {
+      sid: raw.sid,
+      userId: raw.userId,
+      remember: raw.remember === "1",
+      createdAt: Number(raw.createdAt),
+      lastUsedAt: Number(raw.lastUsedAt),
+      userAgent: raw.userAgent || undefined,
+      ip: raw.ip || undefined,
+      refreshHash: raw.refreshHash,
+      prevHash: raw.prevHash || undefined,
+      rotatedAt: raw.rotatedAt ? Number(raw.rotatedAt) : undefined,
+    };
+  }
+
+  async create(session: SessionRecord, ttlSeconds: number) {
+    const key = this.key(session.sid);
+    await redisClient.hSet(key, {
+      sid: session.sid,
+      userId: session.userId,
+      remember: session.remember ? "1" : "0",
+      createdAt: String(session.createdAt),
+      lastUsedAt: String(session.lastUsedAt),
+      userAgent: session.userAgent ?? "",
+      ip: session.ip ?? "",
+      refreshHash: session.refreshHash,
+    });
+    await redisClient.expire(key, ttlSeconds);
+    await redisClient.sAdd(this.userKey(session.userId), session.sid);
+    // the index lives as long as the newest session could
+    await redisClient.expire(this.userKey(session.userId), ttlSeconds, "GT");
+    await redisClient.expire(this.userKey(session.userId), ttlSeconds, "NX");
+  }
+
+  async get(sid: string) {
+    return SessionRepository.toRecord(await redisClient.hGetAll(this.key(sid)));
+  }
+
+  async rotate(sid: string, expectedHash: string, nextHash: string, ttlSeconds: number) {
+    const ok = await redisClient.eval(ROTATE_SCRIPT, {
+      keys: [this.key(sid)],
+      arguments: [expectedHash, nextHash, String(Date.now()), String(ttlSeconds)],
+    });
+    return ok === 1;
+  }
+
+  async listForUser(userId: string) {
+    const sids = await redisClient.sMembers(this.userKey(userId));
+    const sessions: SessionRecord[] = [];
+    const gone: string[] = [];
+    for (const sid of sids) {
+      const session = await this.get(sid);
+      if (session) sessions.push(session);
+      else gone.push(sid);
+    }
+    if (gone.length) await redisClient.sRem(this.userKey(userId), gone);
+    return sessions;
+  }
+
+  // Delete the session and list it as revoked for `revokedTtlSeconds` (the access token lifetime)
+  async revoke(sid: string, userId: string, revokedTtlSeconds: number) {
+    const removed = await redisClient.del(this.key(sid));
+    await redisClient.sRem(this.userKey(userId), sid);
+    await redisClient.set(`${REVOKED_PREFIX}${sid}`, "1", { EX: revokedTtlSeconds });
+    return removed > 0;
+  }
+
+  async isRevoked(sid: string) {
+    return (await redisClient.exists(`${REVOKED_PREFIX}${sid}`)) > 0;
+  }
+
+}
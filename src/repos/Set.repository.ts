@@ -3,8 +3,14 @@ import { injectable } from "inversify";
 import { Set, SetDoc } from "../models/set.model";
 import { ICreateSetInput } from "../interfaces/set.interface";
 import { Types } from "mongoose";
-import { Set as SetModel } from "../models/set.model";
-import type { SetSong } from "../models/set.model";
+import User from "../models/user.model";
+import type { CollaboratorRole, SetInvitation, SetRole, SetSong, SetSuggestion, SetVisibility } from "../models/set.model";
+
+// soft-deleted sets are invisible to every read/write path except trash/restore/purge
+const LIVE = { deletedAt: null };
+
+// sets created before visibility existed have no field and count as public
+const PUBLIC = { visibility: { $in: ["public", null] } };
 
 @injectable()
 export default class SetRepository {
@@ -18,6 +24,7 @@ export default class SetRepository {
       tags: input.tags,
       collaborators: input.collaborators.map((id) => new Types.ObjectId(id)),
       createdBy: new Types.ObjectId(input.createdBy),
+      visibility: input.visibility,
       // suggestions: [], lovedBy: [] come from schema defaults
     });
     return doc.toObject();
@@ -25,24 +32,46 @@ export default class SetRepository {
   }
 
   async findById(setId: string) {
-    return Set.findById(setId).lean<SetDoc>();
+    return Set.findOne({ _id: setId, ...LIVE }).lean<SetDoc>();
+  }
+
+  // owner | editor | suggester | viewer, or null when the user has no access (or the set is missing)
+  async getRole(setId: string, userId: string): Promise<SetRole | null> {
+    const set = await Set.findOne({ _id: setId, ...LIVE })
+      .select("createdBy collaborators collaboratorRoles")
+      .lean<Pick<SetDoc, "_id" | "createdBy" | "collaborators" | "collaboratorRoles">>();
+    if (!set) return null;
+    if (set.createdBy.toString() === userId) return "owner";
+    if (!(set.collaborators ?? []).some((c) => c.toString() === userId)) return null;
+    // collaborators added before roles existed have no entry and keep full edit rights
+    return set.collaboratorRoles?.[userId] ?? "editor";
+  }
+
+  // Listing filter: public sets, plus (for a signed-in viewer) anything they own or collaborate on
+  static visibleTo(viewerId?: string) {
+    if (!viewerId) return PUBLIC;
+    const viewer = new Types.ObjectId(viewerId);
+    return { $or: [PUBLIC, { createdBy: viewer }, { collaborators: viewer }] };
+  }
+
+  // populate() options for another user's `sets`: only live sets the viewer may see, and
+  // none of the review/invite internals or the share token
+  static visiblePopulate(viewerId?: string) {
+    return {
+      path: "sets",
+      model: "Set",
+      match: { ...LIVE, ...SetRepository.visibleTo(viewerId) },
+      select: "name description tags images songs createdBy visibility createdAt updatedAt",
+    };
   }
 
   async isEditor(setId: string, userId: string): Promise<boolean> {
-    const _id = new Types.ObjectId(setId);
-    const u = new Types.ObjectId(userId);
-    const set = await Set.findOne({
-      _id,
-      $or: [{ createdBy: u }, { collaborators: u }],
-    })
-      .select("_id")
-      .lean();
-    return !!set;
-  }
-
-  // Accept an array of song objects (SetSong[]) instead of string[] ids.
-  async setSongs(setId: string, songs: SetSong[]) {
-    // sanitize artists to a string to match schema expectations
+    const role = await this.getRole(setId, userId);
+    return role === "owner" || role === "editor";
+  }
+
+  // sanitize artists to a string to match schema expectations
+  private static sanitizeSongs(songs: SetSong[]) {
     const normalizeArtists = (a: any): string | undefined => {
       if (a == null) return undefined;
       if (typeof a === "string") return a;
@@ -56,33 +85,489 @@ export default class SetRepository {
       return String(a);
     };
 
-    const sanitized = (songs || []).map((s) => ({
+    return (songs || []).map((s) => ({
       id: s.id,
       title: s.title,
       artists: normalizeArtists((s as any).artists),
       image: (s as any).image,
     }));
+  }
 
-    return SetModel.findByIdAndUpdate(
-      setId,
-      { $set: { songs: sanitized } },
+  // Sets created before versioning have no `version` field; treat that as 0.
+  private static versionFilter(expectedVersion?: number) {
+    if (expectedVersion === undefined) return {};
+    return { version: expectedVersion === 0 ? { $in: [0, null] } : expectedVersion };
+  }
+
+  // Every content mutation goes through here: one atomic write that also bumps
+  // `version`. When expectedVersion is given the write only applies if the set is
+  // still at that version; null means "not found or version moved on".
+  // Accepts a classic update document or an aggregation-pipeline update; `filter`
+  // narrows the match further (e.g. "array index exists").
+  async applyUpdate(setId: string, update: Record<string, any> | Record<string, any>[], expectedVersion?: number, filter: Record<string, any> = {}) {
+    const withVersion = Array.isArray(update)
+      ? [...update, { $set: { version: { $add: [{ $ifNull: ["$version", 0] }, 1] } } }]
+      : { ...update, $inc: { version: 1 } };
+
+    return Set.findOneAndUpdate(
+      { _id: new Types.ObjectId(setId), ...LIVE, ...SetRepository.versionFilter(expectedVersion), ...filter },
+      withVersion,
       { new: true, runValidators: true }
-    ).lean();
+    ).lean<SetDoc>().exec();
+  }
+
+  // first up-to-5 song images, computed inside a pipeline update
+  private static imagesFromSongsExpr = {
+    $slice: [{ $filter: { input: { $ifNull: ["$songs.image", []] }, cond: { $and: [{ $gt: ["$$this", null] }, { $ne: ["$$this", ""] }] } } }, 5],
+  };
+
+  async removeSongs(setId: string, trackIds: string[], expectedVersion?: number) {
+    return this.applyUpdate(setId, [
+      { $set: { songs: { $filter: { input: "$songs", cond: { $not: [{ $in: ["$$this.id", trackIds] }] } } } } },
+      { $set: { images: SetRepository.imagesFromSongsExpr } },
+    ], expectedVersion);
+  }
+
+  // Move one song by index in a single pipeline update. Only matches when fromIndex
+  // exists; toIndex past the end moves the song to the end.
+  async moveSong(setId: string, fromIndex: number, toIndex: number, expectedVersion?: number) {
+    return this.applyUpdate(setId, [
+      {
+        $set: {
+          songs: {
+            $let: {
+              vars: {
+                moved: { $arrayElemAt: ["$songs", fromIndex] },
+                rest: {
+                  $map: {
+                    input: { $filter: { input: { $range: [0, { $size: "$songs" }] }, cond: { $ne: ["$$this", fromIndex] } } },
+                    as: "i",
+                    in: { $arrayElemAt: ["$songs", "$$i"] },
+                  },
+                },
+              },
+              in: {
+                $concatArrays: [
+                  toIndex > 0 ? { $slice: ["$$rest", toIndex] } : [],
+                  ["$$moved"],
+                  { $slice: ["$$rest", toIndex, { $max: [1, { $size: "$$rest" }] }] },
+                ],
+              },
+            },
+          },
+        },
+      },
+      { $set: { images: SetRepository.imagesFromSongsExpr } },
+    ], expectedVersion, { [`songs.${fromIndex}`]: { $exists: true } });
   }
 
-  async updateBasic(setId: string, patch: { name?: string; description?: string | null; tags?: string[] }) {
+  async addTags(setId: string, tags: string[], expectedVersion?: number) {
+    return this.applyUpdate(setId, { $addToSet: { tags: { $each: tags } } }, expectedVersion);
+  }
+
+  async removeTags(setId: string, tags: string[], expectedVersion?: number) {
+    return this.applyUpdate(setId, { $pull: { tags: { $in: tags } } }, expectedVersion);
+  }
+
+  // metadata, songs and images in a single write (any subset)
+  async updateContent(
+    setId: string,
+    patch: { name?: string; description?: string | null; tags?: string[]; images?: string[]; songs?: SetSong[]; visibility?: SetVisibility },
+    expectedVersion?: number
+  ) {
     const update: any = {};
     if (patch.name !== undefined) update.name = patch.name;
     if (patch.description !== undefined) update.description = patch.description ?? null;
     if (patch.tags !== undefined) update.tags = patch.tags;
+    if (patch.images !== undefined) update.images = patch.images;
+    if (patch.songs !== undefined) update.songs = SetRepository.sanitizeSongs(patch.songs);
+    if (patch.visibility !== undefined) update.visibility = patch.visibility;
+
+    return this.applyUpdate(setId, { $set: update }, expectedVersion);
+  }
+
+  // single-set read, populated like the listing; review/invite internals and the share token stay private
+  async findByIdPopulated(setId: string) {
+    return Set.findOne({ _id: setId, ...LIVE })
+      .select("-suggestions -invitations -collaboratorRoles -shareToken -lovedAt")
+      .populate("createdBy", "username firstName lastName")
+      .populate("collaborators", "username firstName lastName")
+      .lean<any>()
+      .exec();
+  }
+
+  // Cursor-paged listing done in the database. Sorts on createdAt or on computed
+  // lovedBy/collaborators counts, always tie-breaking on _id so pages never overlap.
+  // Fetches limit + 1 rows so the caller can tell whether there is a next page.
+  async list(opts: {
+    match: Record<string, any>;
+    sortField: "createdAt" | "lovedCount" | "collabCount";
+    limit: number;
+    after?: { value: any; id: Types.ObjectId };
+  }) {
+    const { match, sortField, limit, after } = opts;
+
+    const pipeline: any[] = [
+      { $match: match },
+      {
+        $addFields: {
+          lovedCount: { $size: { $ifNull: ["$lovedBy", []] } },
+          collabCount: { $size: { $ifNull: ["$collaborators", []] } },
+        },
+      },
+    ];
+    if (after) {
+      pipeline.push({
+        $match: {
+          $or: [
+            { [sortField]: { $lt: after.value } },
+            { [sortField]: after.value, _id: { $lt: after.id } },
+          ],
+        },
+      });
+    }
+    pipeline.push(
+      { $sort: { [sortField]: -1, _id: -1 } },
+      { $limit: limit + 1 },
+      // same shape the old populate("createdBy"/"collaborators"/"lovedBy") produced
+      {
+        $lookup: {
+          from: User.collection.name,
+          localField: "createdBy",
+          foreignField: "_id",
+          pipeline: [{ $project: { username: 1, firstName: 1, lastName: 1 } }],
+          as: "createdBy",
+        },
+      },
+      { $unwind: { path: "$createdBy", preserveNullAndEmptyArrays: true } },
+      {
+        $lookup: {
+          from: User.collection.name,
+          localField: "collaborators",
+          foreignField: "_id",
+          pipeline: [{ $project: { username: 1, firstName: 1, lastName: 1 } }],
+          as: "collaborators",
+        },
+      },
+      { $addFields: { lovedBy: { $map: { input: { $ifNull: ["$lovedBy", []] }, as: "u", in: { _id: "$$u" } } } } },
+      { $project: { suggestions: 0, invitations: 0, collaboratorRoles: 0, shareToken: 0, lovedAt: 0 } },
+    );
+
+    return Set.aggregate(pipeline).exec();
+  }
+
+  // $text search ranked by textScore; public sets only
+  async searchText(q: string, limit: number) {
+    return Set.find(
+      { $text: { $search: q }, ...LIVE, ...PUBLIC },
+      {
+        score: { $meta: "textScore" },
+        name: 1, description: 1, tags: 1, images: 1, songs: 1, createdBy: 1, lovedBy: 1, createdAt: 1,
+      }
+    )
+      .sort({ score: { $meta: "textScore" } })
+      .limit(limit)
+      .populate("createdBy", "username firstName lastName")
+      .lean()
+      .exec();
+  }
+
+  async distinctTags(): Promise<string[]> {
+    return Set.distinct("tags", { ...LIVE, ...PUBLIC }).exec();
+  }
+
+  // Love is idempotent and a repeat keeps the original lovedAt; returns the new count
+  // (null if set missing)
+  async addLove(setId: string, userId: string) {
+    const uid = new Types.ObjectId(userId);
+    const updated = await Set.findOneAndUpdate(
+      { _id: setId, lovedBy: { $ne: uid }, ...LIVE },
+      { $push: { lovedBy: uid }, $set: { [`lovedAt.${userId}`]: new Date() } },
+      { new: true, projection: { lovedBy: 1 } }
+    ).lean<Pick<SetDoc, "_id" | "lovedBy">>().exec()
+      // already loved (or missing): just read the count
+      ?? await Set.findOne({ _id: setId, ...LIVE }, { lovedBy: 1 }).lean<Pick<SetDoc, "_id" | "lovedBy">>().exec();
+    return updated ? updated.lovedBy.length : null;
+  }
+
+  async removeLove(setId: string, userId: string) {
+    const updated = await Set.findOneAndUpdate(
+      { _id: setId, ...LIVE },
+      { $pull: { lovedBy: new Types.ObjectId(userId) }, $unset: { [`lovedAt.${userId}`]: "" } },
+      { new: true, projection: { lovedBy: 1 } }
+    ).lean<Pick<SetDoc, "_id" | "lovedBy">>().exec();
+    return updated ? updated.lovedBy.length : null;
+  }
+
+  // sets loved by a user, most recently loved first, populated like the GET /sets listing.
+  // Loves recorded before lovedAt existed sort after the rest, by last update.
+  // A set made private after it was loved drops out unless the user still has access.
+  async findLovedBy(userId: string, skip: number, limit: number) {
+    const q = { lovedBy: new Types.ObjectId(userId), ...LIVE, ...SetRepository.visibleTo(userId) };
+    const [sets, total] = await Promise.all([
+      Set.find(q)
+        .select("-lovedAt")
+        .sort({ [`lovedAt.${userId}`]: -1, updatedAt: -1, _id: -1 })
+        .skip(skip)
+        .limit(limit)
+        .populate("createdBy", "username firstName lastName")
+        .populate("collaborators", "username firstName lastName")
+        .populate("lovedBy", "_id")
+        .lean()
+        .exec(),
+      Set.countDocuments(q).exec(),
+    ]);
+    return { sets, total };
+  }
+
+  // ---- Collaborators & invitations ----
+
+  // Push a pending invitation unless the invitee already has one for this set
+  async addInvitation(setId: string, invitation: Pick<SetInvitation, "invitee" | "invitedBy" | "role">) {
+    const _id = new Types.ObjectId();
+    const updated = await Set.findOneAndUpdate(
+      {
+        _id: new Types.ObjectId(setId),
+        invitations: { $not: { $elemMatch: { invitee: invitation.invitee, status: "pending" } } },
+        ...LIVE,
+      },
+      { $push: { invitations: { _id, ...invitation, status: "pending" } } },
+      { new: true }
+    ).lean<SetDoc>().exec();
+    if (!updated) return null;
+    return updated.invitations.find((i) => i._id.equals(_id)) ?? null;
+  }
 
-    const updated = await Set.findByIdAndUpdate(
-      setId,
-      { $set: update },
-      { new: true } // return updated doc
+  // Accepting adds the invitee to collaborators with the invited role in the same write
+  async acceptInvitation(setId: string, invitationId: string, userId: string) {
+    const invite = await this.findPendingInvitation(setId, invitationId, userId);
+    if (!invite) return null;
+
+    return Set.findOneAndUpdate(
+      {
+        _id: new Types.ObjectId(setId),
+        invitations: { $elemMatch: { _id: invite._id, status: "pending" } },
+        ...LIVE,
+      },
+      {
+        $set: {
+          "invitations.$.status": "accepted",
+          "invitations.$.respondedAt": new Date(),
+          [`collaboratorRoles.${userId}`]: invite.role,
+        },
+        $addToSet: { collaborators: new Types.ObjectId(userId) },
+      },
+      { new: true }
+    ).lean<SetDoc>().exec();
+  }
+
+  // decline (by invitee) or revoke (by owner); only pending invitations can change
+  async closeInvitation(setId: string, invitationId: string, status: "declined" | "revoked", inviteeId?: string) {
+    return Set.findOneAndUpdate(
+      {
+        _id: new Types.ObjectId(setId),
+        invitations: {
+          $elemMatch: {
+            _id: new Types.ObjectId(invitationId),
+            status: "pending",
+            ...(inviteeId ? { invitee: new Types.ObjectId(inviteeId) } : {}),
+          },
+        },
+        ...LIVE,
+      },
+      { $set: { "invitations.$.status": status, "invitations.$.respondedAt": new Date() } },
+      { new: true }
     ).lean<SetDoc>().exec();
+  }
+
+  private async findPendingInvitation(setId: string, invitationId: string, userId: string) {
+    const set = await Set.findById(setId).select("invitations").lean<Pick<SetDoc, "_id" | "invitations">>();
+    return (set?.invitations ?? []).find(
+      (i) => i._id.toString() === invitationId && i.invitee.toString() === userId && i.status === "pending"
+    ) ?? null;
+  }
 
-    return updated; // may be null if not found
+  // sets where the user has a pending invitation (positional projection returns just that invite)
+  async findPendingInvitationsFor(userId: string) {
+    return Set.find(
+      { invitations: { $elemMatch: { invitee: new Types.ObjectId(userId), status: "pending" } }, ...LIVE },
+      { name: 1, images: 1, createdBy: 1, "invitations.$": 1 }
+    )
+      .populate("createdBy", "username firstName lastName")
+      .lean()
+      .exec();
+  }
+
+  async setCollaboratorRole(setId: string, userId: string, role: CollaboratorRole) {
+    return Set.findOneAndUpdate(
+      { _id: new Types.ObjectId(setId), collaborators: new Types.ObjectId(userId), ...LIVE },
+      { $set: { [`collaboratorRoles.${userId}`]: role } },
+      { new: true }
+    ).lean<SetDoc>().exec();
+  }
+
+  async removeCollaborator(setId: string, userId: string) {
+    return Set.findOneAndUpdate(
+      { _id: new Types.ObjectId(setId), collaborators: new Types.ObjectId(userId), ...LIVE },
+      {
+        $pull: { collaborators: new Types.ObjectId(userId) },
+        $unset: { [`collaboratorRoles.${userId}`]: "" },
+      },
+      { new: true }
+    ).lean<SetDoc>().exec();
+  }
+
+  async findWithCollaborators(setId: string) {
+    return Set.findById(setId)
+      .select("name createdBy collaborators collaboratorRoles invitations")
+      .populate("createdBy", "username firstName lastName")
+      .populate("collaborators", "username firstName lastName")
+      .populate("invitations.invitee", "username firstName lastName")
+      .lean()
+      .exec();
+  }
+
+  // ---- Visibility & share links ----
+
+  async findByShareToken(setId: string, token: string) {
+    return Set.findOne({ _id: setId, shareToken: token, ...LIVE }).select("_id").lean();
+  }
+
+  // null token revokes the link
+  async setShareToken(setId: string, ownerId: string, token: string | null) {
+    return Set.findOneAndUpdate(
+      { _id: new Types.ObjectId(setId), createdBy: new Types.ObjectId(ownerId), ...LIVE },
+      { $set: { shareToken: token } },
+      { new: true }
+    ).lean<SetDoc>().exec();
+  }
+
+  // ---- Deletion & ownership ----
+
+  // includes soft-deleted sets (trash/restore/purge need to see them)
+  async findAnyById(setId: string) {
+    return Set.findById(setId).lean<SetDoc>();
+  }
+
+  async findDeletedByOwner(userId: string) {
+    return Set.find({ createdBy: new Types.ObjectId(userId), deletedAt: { $ne: null } })
+      .select("name images tags deletedAt createdAt")
+      .sort({ deletedAt: -1 })
+      .lean()
+      .exec();
+  }
+
+  async softDelete(setId: string, ownerId: string) {
+    return Set.findOneAndUpdate(
+      { _id: new Types.ObjectId(setId), createdBy: new Types.ObjectId(ownerId), ...LIVE },
+      { $set: { deletedAt: new Date() } },
+      { new: true }
+    ).lean<SetDoc>().exec();
+  }
+
+  async restore(setId: string, ownerId: string) {
+    return Set.findOneAndUpdate(
+      { _id: new Types.ObjectId(setId), createdBy: new Types.ObjectId(ownerId), deletedAt: { $ne: null } },
+      { $set: { deletedAt: null } },
+      { new: true }
+    ).lean<SetDoc>().exec();
+  }
+
+  async purge(setId: string, ownerId: string) {
+    const res = await Set.deleteOne({ _id: new Types.ObjectId(setId), createdBy: new Types.ObjectId(ownerId) }).exec();
+    return res.deletedCount > 0;
+  }
+
+  // Owner hands the set to an existing collaborator in one write: the new owner leaves
+  // `collaborators`, the previous owner joins it as an editor.
+  async transferOwnership(setId: string, fromUserId: string, toUserId: string) {
+    const from = new Types.ObjectId(fromUserId);
+    const to = new Types.ObjectId(toUserId);
+    return Set.findOneAndUpdate(
+      { _id: new Types.ObjectId(setId), createdBy: from, collaborators: to, ...LIVE },
+      [
+        {
+          $set: {
+            createdBy: to,
+            collaborators: {
+              $concatArrays: [
+                { $filter: { input: "$collaborators", cond: { $ne: ["$$this", to] } } },
+                [from],
+              ],
+            },
+            collaboratorRoles: {
+              $arrayToObject: {
+                $concatArrays: [
+                  {
+                    $filter: {
+                      input: { $objectToArray: { $ifNull: ["$collaboratorRoles", {}] } },
+                      cond: { $and: [{ $ne: ["$$this.k", toUserId] }, { $ne: ["$$this.k", fromUserId] }] },
+                    },
+                  },
+                  [{ k: fromUserId, v: "editor" }],
+                ],
+              },
+            },
+          },
+        },
+      ],
+      { new: true }
+    ).lean<SetDoc>().exec();
+  }
+
+  // push a new suggestion and return the stored subdocument (with its generated _id)
+  async addSuggestion(setId: string, suggestion: Omit<SetSuggestion, "_id" | "createdAt" | "status">) {
+    const _id = new Types.ObjectId();
+    const updated = await Set.findOneAndUpdate(
+      { _id: setId, ...LIVE },
+      { $push: { suggestions: { _id, ...suggestion, status: "open" } } },
+      { new: true }
+    ).lean<SetDoc>().exec();
+    if (!updated) return null;
+    return updated.suggestions.find((s) => s._id.equals(_id)) ?? null;
+  }
+
+  // Atomically move an OPEN suggestion to accepted/rejected. Returns null when the
+  // suggestion doesn't exist or was already resolved (guards against double-accept).
+  async resolveSuggestion(setId: string, suggestionId: string, status: "accepted" | "rejected", reviewerId: string) {
+    return Set.findOneAndUpdate(
+      {
+        _id: new Types.ObjectId(setId),
+        suggestions: { $elemMatch: { _id: new Types.ObjectId(suggestionId), status: "open" } },
+        ...LIVE,
+      },
+      {
+        $set: {
+          "suggestions.$.status": status,
+          "suggestions.$.reviewedAt": new Date(),
+          "suggestions.$.reviewer": new Types.ObjectId(reviewerId),
+        },
+      },
+      { new: true }
+    ).lean<SetDoc>().exec();
+  }
+
+  // put an accepted suggestion back to open (used when applying it failed)
+  async reopenSuggestion(setId: string, suggestionId: string) {
+    await Set.updateOne(
+      { _id: new Types.ObjectId(setId), "suggestions._id": new Types.ObjectId(suggestionId) },
+      { $set: { "suggestions.$.status": "open" }, $unset: { "suggestions.$.reviewedAt": "", "suggestions.$.reviewer": "" } }
+    ).exec();
+  }
+
+  async setLastCollaboration(setId: string, by: string, suggestionId?: string) {
+    await Set.updateOne(
+      { _id: new Types.ObjectId(setId) },
+      {
+        $set: {
+          lastCollaboration: {
+            by: new Types.ObjectId(by),
+            at: new Date(),
+            ...(suggestionId ? { suggestionId: new Types.ObjectId(suggestionId) } : {}),
+          },
+        },
+      }
+    ).exec();
   }
 
 }
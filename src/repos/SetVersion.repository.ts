@@ -0,0 +1,64 @@
+// src/repos/SetVersion.repository.ts
+import { injectable } from "inversify";
+import { Types } from "mongoose";
+import { SetVersion, SetVersionDoc, SetVersionAction } from "../models/setVersion.model";
+import type { SetDoc } from "../models/set.model";
+
+@injectable()
+export default class SetVersionRepository {
+
+  // snapshot the set as it is after a mutation; `set.version` is the number it was bumped to
+  async record(set: SetDoc, authorId: string, action: SetVersionAction, extra?: { suggestionId?: string; revertedTo?: number }) {
+    const doc = await SetVersion.create({
+      set: set._id,
+      version: set.version,
+      author: new Types.ObjectId(authorId),
+      action,
+      snapshot: {
+        name: set.name,
+        description: set.description ?? null,
+        tags: set.tags ?? [],
+        images: set.images ?? [],
+        songs: (set.songs ?? []).map((s) => ({ id: s.id, title: s.title, artists: s.artists, image: s.image })),
+      },
+      ...(extra?.suggestionId ? { suggestionId: new Types.ObjectId(extra.suggestionId) } : {}),
+      ...(extra?.revertedTo !== undefined ? { revertedTo: extra.revertedTo } : {}),
+    });
+    return doc.toObject() as SetVersionDoc;
+  }
+
+  // newest first, without the (potentially large) song arrays
+  async list(setId: string, skip: number, limit: number) {
+    const q = { set: new Types.ObjectId(setId) };
+    const [versions, total] = await Promise.all([
+      SetVersion.aggregate([
+        { $match: q },
+        { $sort: { version: -1 } },
+        { $skip: skip },
+        { $limit: limit },
+        {
+          $project: {
+            version: 1, author: 1, action: 1, suggestionId: 1, revertedTo: 1, createdAt: 1,
+            name: "$snapshot.name",
+            songCount: { $size: { $ifNull: ["$snapshot.songs", []] } },
+          },
+        },
+      ]).exec(),
+      SetVersion.countDocuments(q).exec(),
+    ]);
+    await SetVersion.populate(versions, { path: "author", select: "username firstName lastName" });
+    return { versions, total };
+  }
+
+  async find(setId: string, version: number) {
+    return SetVersion.findOne({ set: new Types.ObjectId(setId), version })
+      .populate("author", "username firstName lastName")
+      .lean<SetVersionDoc>()
+      .exec();
+  }
+
+  async deleteForSet(setId: string) {
+    await SetVersion.deleteMany({ set: new Types.ObjectId(setId) }).exec();
+  }
+
+}
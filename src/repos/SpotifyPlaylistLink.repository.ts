@@ -0,0 +1,53 @@
+// src/repos/SpotifyPlaylistLink.repository.ts
+import { injectable } from "inversify";
+import { Types } from "mongoose";
+import { SpotifyPlaylistLink, SpotifyPlaylistLinkDoc } from "../models/spotifyPlaylistLink.model";
+
+@injectable()
+export default class SpotifyPlaylistLinkRepository {
+
+  async find(userId: string, setId: string) {
+    return SpotifyPlaylistLink.findOne({ user: new Types.ObjectId(userId), set: new Types.ObjectId(setId) })
+      .lean<SpotifyPlaylistLinkDoc>()
+      .exec();
+  }
+
+  async findForSet(setId: string) {
+    return SpotifyPlaylistLink.find({ set: new Types.ObjectId(setId) }).lean<SpotifyPlaylistLinkDoc[]>().exec();
+  }
+
+  async upsert(userId: string, setId: string, playlistId: string, state: { snapshotId?: string | null; trackIds: string[] }) {
+    return SpotifyPlaylistLink.findOneAndUpdate(
+      { user: new Types.ObjectId(userId), set: new Types.ObjectId(setId) },
+      { $set: { playlistId, snapshotId: state.snapshotId ?? null, trackIds: state.trackIds, syncedAt: new Date(), conflictedAt: null } },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    ).lean<SpotifyPlaylistLinkDoc>().exec();
+  }
+
+  // record what we last wrote to (or read from) the playlist
+  async markSynced(linkId: Types.ObjectId, state: { snapshotId?: string | null; trackIds: string[] }) {
+    await SpotifyPlaylistLink.updateOne(
+      { _id: linkId },
+      { $set: { snapshotId: state.snapshotId ?? null, trackIds: state.trackIds, syncedAt: new Date(), conflictedAt: null } }
+    ).exec();
+  }
+
+  async markConflicted(linkId: Types.ObjectId) {
+    await SpotifyPlaylistLink.updateOne({ _id: linkId, conflictedAt: null }, { $set: { conflictedAt: new Date() } }).exec();
+  }
+
+  async delete(userId: string, setId: string) {
+    return SpotifyPlaylistLink.findOneAndDelete({ user: new Types.ObjectId(userId), set: new Types.ObjectId(setId) })
+      .lean<SpotifyPlaylistLinkDoc>()
+      .exec();
+  }
+
+  async deleteById(linkId: Types.ObjectId) {
+    await SpotifyPlaylistLink.deleteOne({ _id: linkId }).exec();
+  }
+
+  async deleteForSet(setId: string) {
+    await SpotifyPlaylistLink.deleteMany({ set: new Types.ObjectId(setId) }).exec();
+  }
+
+}
@@ -1,15 +1,40 @@
 // src/repos/SpotifyToken.repository.ts
 import { injectable } from "inversify";
 import { redisClient } from "../infra/redis";
+import { decryptToken, encryptToken } from "../utils/tokenCipher";
+import { randomString } from "../utils/pkce";
 
 //// INTERFACES
 import { SpotifyTokens } from "../interfaces/spotifyTokens.interface";
 
 const KEY_PREFIX = "spotify_tokens:"; // e.g., spotify_tokens:<userId>
+const LOCK_PREFIX = "spotify_refresh_lock:"; // held while one request refreshes the user's token
+// set when Spotify rejected the refresh token; cleared by the next successful connect
+const RECONNECT_PREFIX = "spotify_reconnect:";
+const RECONNECT_TTL_SECONDS = 60 * 60 * 24 * 30;
 // If you want to auto-expire tokens in Redis (not required for refresh_token):
 // set to, say, 45 days in seconds. Set to 0 to disable.
 const OPTIONAL_TTL_SECONDS = 0;
 
+// delete a key only if it still holds the value we saw: a lock we still hold (it may have
+// expired and been taken by someone else), or a token value nobody has replaced
+const DELETE_IF_UNCHANGED_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("DEL", KEYS[1])
+end
+return 0`;
+
+// replace a value only if it is still the one we read (keeping its TTL), so rewriting
+// on read can't clobber tokens a concurrent refresh just saved
+const REPLACE_IF_UNCHANGED_SCRIPT = `
+if redis.call("GET", KEYS[1]) ~= ARGV[1] then
+  return 0
+end
+redis.call("SET", KEYS[1], ARGV[2], "KEEPTTL")
+return 1`;
+
+// Tokens are stored encrypted (see utils/tokenCipher). Plaintext values from before
+// encryption, and values under a rotated-out key, are rewritten on read.
 @injectable()
 export default class SpotifyTokenRepository {
 
@@ -17,10 +42,9 @@ export default class SpotifyTokenRepository {
     return `${KEY_PREFIX}${userId}`;
   }
 
-  async saveTokens(userId: string, tokens: SpotifyTokens) {
-    console.log("Save tokens", this.key(userId))
+  private async write(userId: string, tokens: SpotifyTokens) {
     const key = this.key(userId);
-    const payload = JSON.stringify(tokens);
+    const payload = encryptToken(JSON.stringify(tokens), key);
     if (OPTIONAL_TTL_SECONDS > 0) {
       await redisClient.set(key, payload, { EX: OPTIONAL_TTL_SECONDS });
     } else {
@@ -28,38 +52,91 @@ export default class SpotifyTokenRepository {
     }
   }
 
+  async saveTokens(userId: string, tokens: SpotifyTokens) {
+    console.log("Save tokens", this.key(userId))
+    await this.write(userId, tokens);
+    await redisClient.del(`${RECONNECT_PREFIX}${userId}`);
+  }
+
   async getTokens(userId: string): Promise<SpotifyTokens | undefined> {
     console.log("get tokens", this.key(userId))
-    const raw = await redisClient.get(this.key(userId));
+    const key = this.key(userId);
+    const raw = await redisClient.get(key);
     if (!raw) return undefined;
+
+    let opened: ReturnType<typeof decryptToken>;
     try {
-      return JSON.parse(raw) as SpotifyTokens;
+      opened = decryptToken(raw, key);
+    } catch (err) {
+      // a missing or wrong key is a config problem; keep the value so fixing the env recovers it
+      console.error("Failed to decrypt Spotify tokens for", userId, err);
+      return undefined;
+    }
+
+    let tokens: SpotifyTokens;
+    try {
+      tokens = JSON.parse(opened.plaintext) as SpotifyTokens;
     } catch {
-      // if corrupted, drop it
-      await redisClient.del(this.key(userId));
+      // if corrupted, drop it (unless it was replaced meanwhile)
+      await redisClient.eval(DELETE_IF_UNCHANGED_SCRIPT, { keys: [key], arguments: [raw] });
       return undefined;
     }
+
+    if (opened.stale) {
+      try {
+        await redisClient.eval(REPLACE_IF_UNCHANGED_SCRIPT, {
+          keys: [key],
+          arguments: [raw, encryptToken(opened.plaintext, key)],
+        });
+      } catch (err) {
+        console.warn("Failed to re-encrypt Spotify tokens for", userId, err);
+      }
+    }
+    return tokens;
   }
 
   async updateTokens(userId: string, partial: Partial<SpotifyTokens>) {
-    const key = this.key(userId);
     const current = await this.getTokens(userId);
     if (!current) return;
 
-    const merged: SpotifyTokens = { ...current, ...partial };
-
-    if (OPTIONAL_TTL_SECONDS > 0) {
-      await redisClient.set(key, JSON.stringify(merged), { EX: OPTIONAL_TTL_SECONDS });
-    } else {
-      await redisClient.set(key, JSON.stringify(merged));
-    }
+    // Spotify leaves fields like scope out of some refresh responses; keep what we have
+    const defined = Object.fromEntries(Object.entries(partial).filter(([, v]) => v !== undefined));
+    await this.write(userId, { ...current, ...defined });
   }
 
-  // Delete all stored spotify tokens for a user
-  // Returns true if deletion was attempted (redis.del returns number of keys removed)
+  // Delete all stored spotify tokens for a user (and any reconnect marker)
+  // Returns the number of token keys removed
   async deleteTokens(userId: string): Promise<number> {
     const key = this.key(userId);
-    return await redisClient.del(key);
+    const [removed] = await Promise.all([
+      redisClient.del(key),
+      redisClient.del(`${RECONNECT_PREFIX}${userId}`),
+    ]);
+    return removed;
+  }
+
+  // Spotify revoked the grant: drop the tokens and remember why, so callers can tell
+  // "reconnect" apart from "never connected"
+  async markReconnectRequired(userId: string) {
+    await redisClient.del(this.key(userId));
+    await redisClient.set(`${RECONNECT_PREFIX}${userId}`, String(Date.now()), { EX: RECONNECT_TTL_SECONDS });
+  }
+
+  async needsReconnect(userId: string) {
+    return (await redisClient.exists(`${RECONNECT_PREFIX}${userId}`)) > 0;
+  }
+
+  // ---- Refresh lock ----
+
+  // Returns a lock token when acquired, undefined when another request holds it
+  async acquireRefreshLock(userId: string, ttlMs: number) {
+    const token = randomString(12);
+    const ok = await redisClient.set(`${LOCK_PREFIX}${userId}`, token, { PX: ttlMs, NX: true });
+    return ok === "OK" ? token : undefined;
+  }
+
+  async releaseRefreshLock(userId: string, token: string) {
+    await redisClient.eval(DELETE_IF_UNCHANGED_SCRIPT, { keys: [`${LOCK_PREFIX}${userId}`], arguments: [token] });
   }
 
-}
\ No newline at end of file
+}
@@ -0,0 +1,74 @@
+// src/repos/TempPlaylist.repository.ts
+import { injectable } from "inversify";
+import { redisClient } from "../infra/redis";
+
+const KEY_PREFIX = "spotify_temp_playlist:"; // per-app-user temp playlist pointer
+const SET_INDEX_PREFIX = "spotify_temp_playlist_set:"; // setId -> userIds whose temp playlist was built from it
+// Keep temporary playlist reference for several days so we can clean up & replace it later.
+// Previously 6 hours — that expired overnight and the old playlist id was lost.
+const TTL_SECONDS = 60 * 60 * 24 * 7; // 7 days
+
+export type TempPlaylistPointer = {
+  playlistId: string;
+  setId?: string;
+  // track ids in playlist order, so now-playing can map back to a set index
+  trackIds?: string[];
+  // the share link it was queued through, if any, so access can be re-checked with it
+  shareToken?: string;
+};
+
+@injectable()
+export default class TempPlaylistRepository {
+
+  private key(userId: string) {
+    return `${KEY_PREFIX}${userId}`;
+  }
+
+  private setIndexKey(setId: string) {
+    return `${SET_INDEX_PREFIX}${setId}`;
+  }
+
+  async get(userId: string): Promise<TempPlaylistPointer | undefined> {
+    const raw = await redisClient.get(this.key(userId));
+    if (!raw) return undefined;
+    // older entries stored the bare playlist id
+    if (!raw.startsWith("{")) return { playlistId: raw };
+    try {
+      return JSON.parse(raw) as TempPlaylistPointer;
+    } catch {
+      await redisClient.del(this.key(userId));
+      return undefined;
+    }
+  }
+
+  async save(userId: string, pointer: TempPlaylistPointer) {
+    await redisClient.set(this.key(userId), JSON.stringify(pointer), { EX: TTL_SECONDS });
+    if (pointer.setId) {
+      await redisClient.sAdd(this.setIndexKey(pointer.setId), userId);
+      await redisClient.expire(this.setIndexKey(pointer.setId), TTL_SECONDS);
+    }
+  }
+
+  async delete(userId: string) {
+    const current = await this.get(userId);
+    await redisClient.del(this.key(userId));
+    if (current?.setId) await redisClient.sRem(this.setIndexKey(current.setId), userId);
+    return current;
+  }
+
+  // Remove every user's pointer that still refers to this set; returns the removed pointers
+  async deleteForSet(setId: string) {
+    const userIds = await redisClient.sMembers(this.setIndexKey(setId));
+    const removed: { userId: string; pointer: TempPlaylistPointer }[] = [];
+    for (const userId of userIds) {
+      const pointer = await this.get(userId);
+      if (pointer?.setId === setId) {
+        await redisClient.del(this.key(userId));
+        removed.push({ userId, pointer });
+      }
+    }
+    await redisClient.del(this.setIndexKey(setId));
+    return removed;
+  }
+
+}
@@ -28,6 +28,24 @@ export default class UserRepository {
     ).exec();
   }
 
+  async pullSet(userId: string, setId: string) {
+    if (!Types.ObjectId.isValid(userId) || !Types.ObjectId.isValid(setId)) {
+      throw new Error("Invalid ObjectId");
+    }
+    await User.updateOne(
+      { _id: new Types.ObjectId(userId) },
+      { $pull: { sets: new Types.ObjectId(setId) } }
+    ).exec();
+  }
+
+  // drop a set from every user's `sets` (used when a set is purged)
+  async pullSetFromAll(setId: string) {
+    await User.updateMany(
+      { sets: new Types.ObjectId(setId) },
+      { $pull: { sets: new Types.ObjectId(setId) } }
+    ).exec();
+  }
+
   async markEmailVerified(userId: string) {
     await User.updateOne(
       { _id: userId },
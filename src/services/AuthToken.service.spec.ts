@@ -0,0 +1,198 @@
+import http from "http";
+import { AddressInfo } from "net";
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { mock } from "jest-mock-extended";
+import AuthTokenService from "./AuthToken.service";
+import UserRepository from "../repos/User.repository";
+import type { VerifiedProfile } from "../interfaces/verifiedProfile.interface";
+
+const APPLE_ISSUER = "https://appleid.apple.com";
+const CLIENT_ID = "com.example.gooodvibez.web";
+
+type Signer = { kid: string; privateKey: crypto.KeyObject; jwk: crypto.JsonWebKey & { kid: string } };
+
+function signer(kid: string): Signer {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+  return { kid, privateKey, jwk: { ...publicKey.export({ format: "jwk" }), kid, alg: "RS256", use: "sig" } };
+}
+
+// Local JWKS fixture standing in for https://appleid.apple.com/auth/keys
+function jwksServer() {
+  const state = { keys: [] as Signer["jwk"][], requests: 0 };
+  const server = http.createServer((_req, res) => {
+    state.requests++;
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify({ keys: state.keys }));
+  });
+  return { server, state };
+}
+
+function appleToken(s: Signer, claims: Record<string, unknown> = {}, opts: jwt.SignOptions = {}) {
+  return jwt.sign({ sub: "001234.abcdef.0001", ...claims }, s.privateKey, {
+    algorithm: "RS256",
+    keyid: s.kid,
+    issuer: APPLE_ISSUER,
+    audience: CLIENT_ID,
+    expiresIn: 600,
+    ...opts,
+  });
+}
+
+describe("AuthTokenService.verifyApple", () => {
+  const { server, state } = jwksServer();
+  const current = signer("key-1");
+  const env = { ...process.env };
+  let auth: AuthTokenService;
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    process.env.APPLE_JWKS_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/auth/keys`;
+    process.env.APPLE_CLIENT_IDS = `${CLIENT_ID},com.example.gooodvibez`;
+  });
+
+  afterAll(async () => {
+    process.env = env;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    state.keys = [current.jwk];
+    state.requests = 0;
+    auth = new AuthTokenService(mock<UserRepository>());
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it("accepts a valid token and maps the claims and first-login name", async () => {
+    const token = appleToken(current, {
+      email: "Relay123@privaterelay.appleid.com",
+      email_verified: "true",
+      is_private_email: "true",
+      nonce: "n-1",
+    });
+
+    const profile = await auth.verifyApple(token, {
+      nonce: "n-1",
+      user: JSON.stringify({ name: { firstName: "Ada", lastName: "Lovelace" } }),
+    });
+
+    expect(profile).toEqual({
+      provider: "apple",
+      providerUserId: "001234.abcdef.0001",
+      email: "relay123@privaterelay.appleid.com",
+      emailVerifiedByProvider: true,
+      isPrivateEmail: true,
+      firstName: "Ada",
+      lastName: "Lovelace",
+    });
+    expect(state.requests).toBe(1);
+  });
+
+  it("caches the key set between logins", async () => {
+    await auth.verifyApple(appleToken(current));
+    await auth.verifyApple(appleToken(current));
+    expect(state.requests).toBe(1);
+  });
+
+  it("refetches the key set when a token names an unknown kid", async () => {
+    const now = Date.now();
+    const clock = jest.spyOn(Date, "now").mockReturnValue(now);
+    await auth.verifyApple(appleToken(current));
+
+    // Apple rotates in a new key
+    const rotated = signer("key-2");
+    state.keys = [current.jwk, rotated.jwk];
+
+    // right after a fetch an unknown kid is refused without hammering the endpoint
+    await expect(auth.verifyApple(appleToken(rotated))).rejects.toThrow("Unknown Apple signing key");
+    expect(state.requests).toBe(1);
+
+    clock.mockReturnValue(now + 61_000);
+    await expect(auth.verifyApple(appleToken(rotated))).resolves.toMatchObject({ provider: "apple" });
+    expect(state.requests).toBe(2);
+  });
+
+  it("rejects a token from another issuer", async () => {
+    await expect(auth.verifyApple(appleToken(current, {}, { issuer: "https://evil.example" })))
+      .rejects.toThrow(/^Invalid Apple id token: jwt issuer invalid/);
+  });
+
+  it("rejects a token for another audience", async () => {
+    await expect(auth.verifyApple(appleToken(current, {}, { audience: "com.someone.else" })))
+      .rejects.toThrow(/^Invalid Apple id token: jwt audience invalid/);
+  });
+
+  it("rejects an expired token", async () => {
+    await expect(auth.verifyApple(appleToken(current, {}, { expiresIn: -120 })))
+      .rejects.toThrow("Invalid Apple id token: jwt expired");
+  });
+
+  it("rejects a nonce mismatch", async () => {
+    await expect(auth.verifyApple(appleToken(current, { nonce: "sent" }), { nonce: "expected" }))
+      .rejects.toThrow("Invalid Apple nonce");
+  });
+
+  it("rejects a token carrying a nonce when the client sends none", async () => {
+    await expect(auth.verifyApple(appleToken(current, { nonce: "sent" })))
+      .rejects.toThrow("Invalid Apple nonce");
+  });
+
+  it("rejects a token without a nonce when the client expects one", async () => {
+    await expect(auth.verifyApple(appleToken(current), { nonce: "expected" }))
+      .rejects.toThrow("Invalid Apple nonce");
+  });
+
+  it("rejects a token that isn't RS256 without fetching keys", async () => {
+    const hs256 = jwt.sign({ sub: "001234.abcdef.0001" }, "shared-secret", {
+      algorithm: "HS256",
+      keyid: current.kid,
+      issuer: APPLE_ISSUER,
+      audience: CLIENT_ID,
+    });
+
+    await expect(auth.verifyApple(hs256)).rejects.toThrow("Invalid Apple id token: unexpected alg");
+    expect(state.requests).toBe(0);
+  });
+
+  it("rejects a token signed with a key Apple doesn't publish", async () => {
+    const forged = { ...signer(current.kid), jwk: current.jwk };
+    await expect(auth.verifyApple(appleToken(forged))).rejects.toThrow("Invalid Apple id token: invalid signature");
+  });
+
+});
+
+describe("AuthTokenService.upsertFromProvider", () => {
+  const existing = { _id: "u1", email: "ada@example.com", emailVerified: false, identities: [] } as any;
+  const profile = (emailVerifiedByProvider: boolean): VerifiedProfile => ({
+    provider: "google",
+    providerUserId: "g-1",
+    email: "Ada@example.com",
+    emailVerifiedByProvider,
+  });
+
+  function setup() {
+    const users = mock<UserRepository>();
+    users.findByIdentity.mockResolvedValue(null as any);
+    users.findByEmail.mockResolvedValue(existing);
+    users.findById.mockResolvedValue(existing);
+    return { users, auth: new AuthTokenService(users) };
+  }
+
+  it("links a provider that verified the address to the account using it", async () => {
+    const { users, auth } = setup();
+
+    await expect(auth.upsertFromProvider(profile(true))).resolves.toBe(existing);
+    expect(users.addIdentity).toHaveBeenCalledWith("u1", { provider: "google", providerUserId: "g-1", email: "Ada@example.com" });
+    expect(users.markEmailVerified).toHaveBeenCalledWith("u1");
+  });
+
+  it("does not link by an email the provider hasn't verified", async () => {
+    const { users, auth } = setup();
+
+    await expect(auth.upsertFromProvider(profile(false))).rejects.toThrow("Email already in use");
+    expect(users.addIdentity).not.toHaveBeenCalled();
+    expect(users.create).not.toHaveBeenCalled();
+  });
+
+});
@@ -2,35 +2,116 @@
 import jwt from "jsonwebtoken";
 import axios from 'axios'
 import bcrypt from "bcryptjs"
+import crypto from "crypto";
 import { injectable } from "inversify";
-import { Response } from "express";
+import { Request, Response } from "express";
 import { VerifiedProfile } from "../interfaces/verifiedProfile.interface"
 import { LoginInput } from "../interfaces/login.interface";
 
 import UserRepository from "../repos/User.repository"
 
+export const SESSION_COOKIE = "gv_session"; // access token
+// refresh token; only sent to the auth routes that need it
+export const REFRESH_COOKIE = "gv_refresh";
+// pending-verification token of a social sign-up that still needs a (verified) email
+export const PENDING_COOKIE = "gv_pending";
+const AUTH_COOKIE_PATH = "/api/user/auth";
+const PENDING_TTL_SECONDS = 60 * 60;
+// double-submit CSRF token: readable by the frontend, echoed back in the X-CSRF-Token header
+export const CSRF_COOKIE = "gv_csrf";
+export const CSRF_HEADER = "x-csrf-token";
+
+// access tokens are short-lived; sessions continue through POST /user/auth/refresh
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
+const DEV_SECRET = "dev-secret";
+
+const APPLE_ISSUER = "https://appleid.apple.com";
+const APPLE_JWKS_URL = "https://appleid.apple.com/auth/keys";
+const APPLE_JWKS_TTL_MS = 60 * 60 * 1000;
+// an unknown kid triggers a refetch (Apple rotates keys), but not more often than this
+const APPLE_JWKS_MIN_REFETCH_MS = 60 * 1000;
+
+type AppleIdTokenClaims = {
+  sub: string;
+  email?: string;
+  email_verified?: boolean | "true" | "false";
+  is_private_email?: boolean | "true" | "false";
+  nonce?: string;
+};
+
+// Apple's `user` form field (first authorization only), as an object or its JSON string
+type AppleUserInfo = { name?: { firstName?: string; lastName?: string }; email?: string };
+
+// Anyone who knows the dev secret can mint sessions, so production refuses to start with it
+function resolveJwtSecret() {
+  const secret = process.env.JWT_SECRET;
+  if (process.env.NODE_ENV === "production" && (!secret || secret === DEV_SECRET)) {
+    throw new Error("JWT_SECRET must be set to a non-default value in production");
+  }
+  return secret || DEV_SECRET;
+}
+
+export type SessionUser = { id: string; username: string; plan: "free" | "pro"; sid: string };
+
 @injectable()
 export default class AuthTokenService {
 
   constructor(private readonly users: UserRepository) { }
 
-  private secret = process.env.JWT_SECRET || "dev-secret";
+  private secret = resolveJwtSecret();
 
-  makeEmailVerifyToken(userId: string) {
-    return jwt.sign({ purpose: "email_verify" }, this.secret, {
+  private appleKeys?: { keys: Map<string, crypto.KeyObject>; fetchedAt: number };
+
+  // Bound to the address it was mailed to: it only verifies that address, and only while
+  // it is still the account's email
+  makeEmailVerifyToken(userId: string, email: string) {
+    return jwt.sign({ purpose: "email_verify", email: email.toLowerCase() }, this.secret, {
       subject: userId,
       expiresIn: "24h",
     });
   }
 
-  verifyEmailVerifyToken(token: string): string {
+  verifyEmailVerifyToken(token: string): { userId: string; email: string } {
     const payload = jwt.verify(token, this.secret) as any;
     if (payload.purpose !== "email_verify") throw new Error("Bad token purpose");
+    if (typeof payload.email !== "string") throw new Error("Invalid or expired token");
+    return { userId: payload.sub as string, email: payload.email };
+  }
+
+  // Limited scope: only POST /user/auth/email and /resend-verification accept it, so an
+  // unverified social account can add an email without getting a session
+  makePendingVerificationToken(userId: string) {
+    return jwt.sign({ purpose: "pending_verification" }, this.secret, {
+      subject: userId,
+      expiresIn: PENDING_TTL_SECONDS,
+    });
+  }
+
+  verifyPendingVerificationToken(token: string): string {
+    const payload = jwt.verify(token, this.secret) as any;
+    if (payload.purpose !== "pending_verification") throw new Error("Bad token purpose");
     return payload.sub as string; // userId
   }
 
-  makeSessionToken(payload: { sub: string; username: string; plan: string }, remember = false) {
-    return jwt.sign(payload, this.secret, { expiresIn: remember ? "30d" : "7d" });
+  // Cookie for the redirect flow (X callback) plus a CSRF cookie, since the cookie is then
+  // sent with POSTs; returns the CSRF token
+  setPendingCookie(res: Response, token: string) {
+    const maxAge = PENDING_TTL_SECONDS * 1000;
+    res.cookie(PENDING_COOKIE, token, { ...this.cookieOptions(maxAge, true), path: AUTH_COOKIE_PATH });
+    return this.setCsrfCookie(res, maxAge);
+  }
+
+  clearPendingCookie(res: Response) {
+    const opts: any = { path: AUTH_COOKIE_PATH };
+    const clearDomain = this.cookieDomain();
+    if (clearDomain) opts.domain = clearDomain;
+    res.clearCookie(PENDING_COOKIE, opts);
+  }
+
+  // `sid` ties the token to a server-side session so it can be revoked before it expires
+  makeAccessToken(payload: { sub: string; username: string; plan: string; sid: string }) {
+    return jwt.sign(payload, this.secret, { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
   }
 
   async issueSessionAfterVerify(userId: string) {
@@ -50,9 +131,17 @@ export default class AuthTokenService {
     };
   }
 
-  setSessionCookie(res: Response, token: string, remember = true) {
-    const maxAge = remember ? 30 * 24 * 3600 * 1000 : 7 * 24 * 3600 * 1000;
+  // Session JWT (from the Authorization header or the gv_session cookie) -> req.user
+  verifySession(token: string): SessionUser {
+    const payload = jwt.verify(token, this.secret) as {
+      sub: string; username: string; plan: "free" | "pro"; sid?: string;
+    };
+    // long-lived tokens from before server-side sessions can't be revoked; make them sign in again
+    if (!payload.sid) throw new Error("Session token without session id");
+    return { id: payload.sub, username: payload.username, plan: payload.plan, sid: payload.sid };
+  }
 
+  private cookieDomain() {
     // derive a valid cookie domain (hostname only). Prefer explicit COOKIE_DOMAIN, otherwise parse APP_ORIGIN.
     let cookieDomain: string | undefined = undefined;
     const rawDomain = (process.env.COOKIE_DOMAIN || "").trim();
@@ -78,31 +167,60 @@ export default class AuthTokenService {
     if (cookieDomain && process.env.COOKIE_LEADING_DOT === "1" && !cookieDomain.startsWith(".")) {
       cookieDomain = `.${cookieDomain}`;
     }
+    return cookieDomain;
+  }
 
+  private cookieOptions(maxAge: number, httpOnly: boolean) {
     const cookieOpts: any = {
-      httpOnly: true,
+      httpOnly,
       secure: process.env.NODE_ENV === "production",
       sameSite: process.env.COOKIE_SAMESITE ?? (process.env.NODE_ENV === "production" ? "none" : "lax"),
       maxAge,
       path: "/",
     };
+    const cookieDomain = this.cookieDomain();
     if (cookieDomain) cookieOpts.domain = cookieDomain;
+    return cookieOpts;
+  }
+
+  // Access + refresh cookies and a fresh CSRF cookie for a session lasting `ttlSeconds`;
+  // returns the CSRF token for clients that can't read cookies on the API's domain
+  setSessionCookies(res: Response, tokens: { accessToken: string; refreshToken: string }, ttlSeconds: number) {
+    const maxAge = ttlSeconds * 1000;
+    this.setAccessCookie(res, tokens.accessToken);
+    res.cookie(REFRESH_COOKIE, tokens.refreshToken, { ...this.cookieOptions(maxAge, true), path: AUTH_COOKIE_PATH });
+    return this.setCsrfCookie(res, maxAge);
+  }
+
+  setAccessCookie(res: Response, accessToken: string) {
+    res.cookie(SESSION_COOKIE, accessToken, this.cookieOptions(ACCESS_TOKEN_TTL_SECONDS * 1000, true));
+  }
+
+  // Keeps an existing CSRF token (other tabs already hold it) unless asked for a new one
+  setCsrfCookie(res: Response, maxAge = 30 * 24 * 3600 * 1000, existing?: string) {
+    const csrf = existing || crypto.randomBytes(24).toString("base64url");
+    res.cookie(CSRF_COOKIE, csrf, this.cookieOptions(maxAge, false));
+    return csrf;
+  }
 
-    res.cookie("gv_session", token, cookieOpts);
+  // Cookie-authenticated writes must echo the CSRF cookie in the X-CSRF-Token header; a
+  // cross-site page can make the browser send the cookie but can't read it.
+  checkCsrf(req: Request) {
+    const cookie = req.cookies?.[CSRF_COOKIE];
+    const header = req.headers[CSRF_HEADER];
+    if (typeof cookie !== "string" || typeof header !== "string" || !cookie) return false;
+    const a = Buffer.from(cookie);
+    const b = Buffer.from(header);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
   }
 
   clearSessionCookie(res: Response) {
     const opts: any = { path: "/" };
-    // reuse same derivation logic: prefer COOKIE_DOMAIN, otherwise parse APP_ORIGIN
-    const rawDomain = (process.env.COOKIE_DOMAIN || "").trim();
-    let clearDomain: string | undefined = undefined;
-    if (rawDomain) {
-      try { clearDomain = new URL(rawDomain).hostname; } catch { clearDomain = rawDomain.replace(/^https?:\/\//, "").split(":")[0]; }
-    } else if (process.env.APP_ORIGIN) {
-      try { clearDomain = new URL(process.env.APP_ORIGIN).hostname; } catch { }
-    }
+    const clearDomain = this.cookieDomain();
     if (clearDomain) opts.domain = clearDomain;
-    res.clearCookie("gv_session", opts);
+    res.clearCookie(SESSION_COOKIE, opts);
+    res.clearCookie(REFRESH_COOKIE, { ...opts, path: AUTH_COOKIE_PATH });
+    res.clearCookie(CSRF_COOKIE, opts);
   }
 
   verify(token: string) {
@@ -129,22 +247,125 @@ export default class AuthTokenService {
     };
   }
 
+  // Apple's signing keys by kid, cached; APPLE_JWKS_URL can point elsewhere (e.g. a local fixture)
+  private async appleKey(kid: string) {
+    const age = this.appleKeys ? Date.now() - this.appleKeys.fetchedAt : Infinity;
+    const unknownKid = !!this.appleKeys && !this.appleKeys.keys.has(kid);
+    if (age > APPLE_JWKS_TTL_MS || (unknownKid && age > APPLE_JWKS_MIN_REFETCH_MS)) {
+      try {
+        const { data } = await axios.get(process.env.APPLE_JWKS_URL || APPLE_JWKS_URL, { timeout: 5000 });
+        const keys = new Map<string, crypto.KeyObject>();
+        for (const jwk of (data?.keys ?? []) as (crypto.JsonWebKey & { kid?: string })[]) {
+          if (jwk.kid && jwk.kty === "RSA") keys.set(jwk.kid, crypto.createPublicKey({ key: jwk, format: "jwk" }));
+        }
+        this.appleKeys = { keys, fetchedAt: Date.now() };
+      } catch (err) {
+        // keep using what we have rather than failing every Apple login
+        if (!this.appleKeys) throw err;
+        console.warn("Failed to refresh Apple JWKS", err);
+      }
+    }
+
+    const key = this.appleKeys!.keys.get(kid);
+    if (!key) throw new Error("Unknown Apple signing key");
+    return key;
+  }
+
+  // Verifies a Sign in with Apple id token: RS256 signature against Apple's JWKS, issuer,
+  // audience (APPLE_CLIENT_IDS, comma-separated, or APPLE_SERVICES_ID), expiry and the
+  // nonce: when either the client or the token has one, both must, and they must match.
+  // Apple puts the name only in the `user` field of the very first authorization, so the
+  // client passes that along when it has it.
+  async verifyApple(idToken: string, opts: { nonce?: string; user?: AppleUserInfo | string } = {}): Promise<VerifiedProfile> {
+    const audiences = (process.env.APPLE_CLIENT_IDS || process.env.APPLE_SERVICES_ID || "")
+      .split(",").map(a => a.trim()).filter(Boolean);
+    if (!audiences.length) throw new Error("Apple sign-in is not configured");
+
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === "string" || !decoded.header.kid) {
+      throw new Error("Invalid Apple id token");
+    }
+    // Apple only signs with RS256; refuse anything else before it can make us fetch keys
+    if (decoded.header.alg !== "RS256") throw new Error("Invalid Apple id token: unexpected alg");
+    const key = await this.appleKey(decoded.header.kid);
+
+    let claims: AppleIdTokenClaims;
+    try {
+      claims = jwt.verify(idToken, key, {
+        algorithms: ["RS256"],
+        issuer: APPLE_ISSUER,
+        audience: audiences as [string, ...string[]],
+        clockTolerance: 30,
+      }) as AppleIdTokenClaims;
+    } catch (err: any) {
+      throw new Error(`Invalid Apple id token: ${err?.message ?? "verification failed"}`);
+    }
+    if (!claims.sub) throw new Error("Invalid Apple id token");
+    if ((opts.nonce !== undefined || claims.nonce !== undefined) && claims.nonce !== opts.nonce) {
+      throw new Error("Invalid Apple nonce");
+    }
+
+    let user: AppleUserInfo | undefined;
+    try {
+      user = typeof opts.user === "string" ? JSON.parse(opts.user) : opts.user;
+    } catch {
+      user = undefined; // a malformed name is not worth failing the login over
+    }
+
+    const truthy = (v: unknown) => v === true || v === "true";
+    const email = claims.email?.toLowerCase();
+    // relay addresses forward to the user's real inbox, so they're usable like any verified email
+    const isPrivateEmail = truthy(claims.is_private_email) || !!email?.endsWith("@privaterelay.appleid.com");
+
+    return {
+      provider: "apple",
+      providerUserId: claims.sub,
+      email,
+      emailVerifiedByProvider: !!email && (truthy(claims.email_verified) || isPrivateEmail),
+      isPrivateEmail,
+      firstName: user?.name?.firstName?.trim() || undefined,
+      lastName: user?.name?.lastName?.trim() || undefined,
+    };
+  }
+
   // This is where we SAVE to user.identities[]
   async upsertFromProvider(p: VerifiedProfile, termsAcceptedAt?: Date, timezone?: string) {
     // If already linked by provider
     const byIdentity = await this.users.findByIdentity(p.provider, p.providerUserId);
-    if (byIdentity) return byIdentity;
+    if (byIdentity) {
+      // Apple sends the name once; fill it in if an earlier login didn't get it
+      if ((p.firstName && !byIdentity.firstName) || (p.lastName && !byIdentity.lastName)) {
+        await this.users.updateById(byIdentity._id.toString(), {
+          firstName: byIdentity.firstName || p.firstName || "",
+          lastName: byIdentity.lastName || p.lastName || "",
+        });
+        return await this.users.findById(byIdentity._id.toString());
+      }
+      return byIdentity;
+    }
 
     // If account exists by email, link identity to that user
     if (p.email) {
       const byEmail = await this.users.findByEmail(p.email.toLowerCase());
-      if (byEmail) {
+      if (byEmail?.emailSource === "set_email") {
+        // typed in through POST /user/auth/email, which says nothing about who owns this
+        // sign-in, so it is never linked. An unverified claim loses to the provider's
+        // verified address and that account goes back to its placeholder.
+        if (byEmail.emailVerified || !p.emailVerifiedByProvider) throw new Error("Email already in use");
+        const identity = byEmail.identities?.[0];
+        const placeholder = identity
+          ? `${identity.provider}_${identity.providerUserId}@example.invalid`
+          : `user_${byEmail._id}@example.invalid`;
+        await this.users.updateById(byEmail._id.toString(), { email: placeholder.toLowerCase(), emailSource: null });
+      } else if (byEmail) {
+        // only a provider that vouches for the address may sign in to the account using it
+        if (!p.emailVerifiedByProvider) throw new Error("Email already in use");
         await this.users.addIdentity(byEmail._id, {
           provider: p.provider,
           providerUserId: p.providerUserId,
           email: p.email,
         });
-        if (p.emailVerifiedByProvider && !byEmail.emailVerified) {
+        if (!byEmail.emailVerified) {
           await this.users.markEmailVerified(byEmail._id);
         }
         return await this.users.findById(byEmail._id);
@@ -152,7 +373,9 @@ export default class AuthTokenService {
     }
 
     // Else create a new user (username allocation + identities[])
-    const base = (p.firstName || p.email?.split("@")[0] || `${p.provider}_${p.providerUserId.slice(-6)}`)?.toLowerCase().replace(/[^a-z0-9_]+/g, "") || "user";
+    // relay addresses are random strings, no good as a username
+    const emailName = p.isPrivateEmail ? undefined : p.email?.split("@")[0];
+    const base = (p.firstName || emailName || `${p.provider}_${p.providerUserId.slice(-6)}`)?.toLowerCase().replace(/[^a-z0-9_]+/g, "") || "user";
 
     const username = await this.users.allocateUsername(base);
 
@@ -198,11 +421,7 @@ export default class AuthTokenService {
       throw new Error("Please verify your email before signing in");
     }
 
-    const remember = input.rememberMe ?? true;
-    const expiresIn = remember ? "30d" : "7d";
-
-    const token = this.makeSessionToken({ sub: user._id, username: user.username, plan: user.plan }, remember)
-
+    // the caller opens the session (SessionService.start) with these credentials checked
     return {
       user: {
         id: user._id,
@@ -213,8 +432,7 @@ export default class AuthTokenService {
         plan: user.plan,
         emailVerified: user.emailVerified,
       },
-      token,
-      expiresIn,
+      remember: input.rememberMe ?? true,
     };
   }
 
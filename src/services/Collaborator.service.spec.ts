@@ -0,0 +1,97 @@
+// the repositories pull in the Redis client, which connects on import
+jest.mock("../infra/redis", () => ({ redisClient: {} }));
+// in-process stand-in for Redis pub/sub: published events reach subscribers as JSON, like the real thing
+jest.mock("../infra/events", () => {
+  const listeners = new Map<string, ((payload: any) => void)[]>();
+  return {
+    publish: async (channel: string, payload: unknown) => {
+      for (const listener of listeners.get(channel) ?? []) listener(JSON.parse(JSON.stringify(payload)));
+    },
+    subscribe: async (channel: string, listener: (payload: any) => void) => {
+      listeners.set(channel, [...(listeners.get(channel) ?? []), listener]);
+      return async () => { listeners.set(channel, (listeners.get(channel) ?? []).filter((l) => l !== listener)); };
+    },
+  };
+});
+
+import { mock } from "jest-mock-extended";
+import { Types } from "mongoose";
+import CollaboratorService from "./Collaborator.service";
+import SetService from "./Set.service";
+import EmailService from "./Email.service";
+import SpotifyService from "./Spotify.service";
+import SpotifyPlaylistService from "./SpotifyPlaylist.service";
+import TrackServiceCache from "./TrackCache.service";
+import SetRepository from "../repos/Set.repository";
+import UserRepository from "../repos/User.repository";
+import SetVersionRepository from "../repos/SetVersion.repository";
+
+const flush = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+function setup(visibility: "public" | "unlisted" | "private") {
+  const setId = new Types.ObjectId().toString();
+  const ownerId = new Types.ObjectId().toString();
+  const members = new Map<string, "editor" | "viewer">();
+
+  const repo = mock<SetRepository>();
+  repo.findById.mockResolvedValue({ _id: new Types.ObjectId(setId), visibility, version: 3 } as any);
+  repo.getRole.mockImplementation(async (_setId, userId) => userId === ownerId ? "owner" : members.get(userId) ?? null);
+  repo.removeCollaborator.mockImplementation(async (_setId, userId) => (members.delete(userId) ? {} : null) as any);
+
+  const sets = new SetService(repo, mock<UserRepository>(), mock<SpotifyService>(), mock<TrackServiceCache>(),
+    mock<SpotifyPlaylistService>(), mock<SetVersionRepository>());
+  const collaborators = new CollaboratorService(repo, mock<UserRepository>(), mock<EmailService>(), sets);
+
+  // opens GET /sets/:setId/events as `viewerId` and records the event names it is sent
+  const watch = async (viewerId: string) => {
+    const received: string[] = [];
+    await sets.events(setId, viewerId, undefined, (event) => received.push(event));
+    return received;
+  };
+
+  return { setId, ownerId, members, collaborators, watch };
+}
+
+describe("CollaboratorService.removeCollaborator", () => {
+
+  it("revokes the removed member's open event stream on a private set", async () => {
+    const { setId, ownerId, members, collaborators, watch } = setup("private");
+    const removed = new Types.ObjectId().toString();
+    const kept = new Types.ObjectId().toString();
+    members.set(removed, "editor").set(kept, "viewer");
+
+    const removedStream = await watch(removed);
+    const keptStream = await watch(kept);
+
+    await collaborators.removeCollaborator(setId, removed, ownerId);
+    await flush();
+
+    expect(removedStream).toEqual(["ready", "access.revoked"]);
+    expect(keptStream).toEqual(["ready"]);
+  });
+
+  it("revokes the stream of a member who leaves", async () => {
+    const { setId, members, collaborators, watch } = setup("unlisted");
+    const leaving = new Types.ObjectId().toString();
+    members.set(leaving, "editor");
+
+    const stream = await watch(leaving);
+    await collaborators.removeCollaborator(setId, leaving, leaving);
+    await flush();
+
+    expect(stream).toEqual(["ready", "access.revoked"]);
+  });
+
+  it("leaves the stream open when the set is public", async () => {
+    const { setId, ownerId, members, collaborators, watch } = setup("public");
+    const removed = new Types.ObjectId().toString();
+    members.set(removed, "editor");
+
+    const stream = await watch(removed);
+    await collaborators.removeCollaborator(setId, removed, ownerId);
+    await flush();
+
+    expect(stream).toEqual(["ready"]);
+  });
+
+});
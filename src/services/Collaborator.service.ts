@@ -0,0 +1,140 @@
+import "reflect-metadata";
+import { injectable } from "inversify";
+import { Types } from "mongoose";
+import SetRepository from "../repos/Set.repository";
+import UserRepository from "../repos/User.repository";
+import EmailService from "./Email.service";
+import SetService from "./Set.service";
+import type { CollaboratorRole } from "../models/set.model";
+import { IInviteCollaboratorInput } from "../interfaces/collaborator.interface";
+
+@injectable()
+export default class CollaboratorService {
+  constructor(private set: SetRepository, private users: UserRepository, private email: EmailService, private sets: SetService) { }
+
+  private async assertOwner(setId: string, userId: string) {
+    const role = await this.set.getRole(setId, userId);
+    if (role !== "owner") throw new Error("Forbidden");
+  }
+
+  // By username (public anyway): errors say what went wrong
+  async invite(setId: string, ownerId: string, input: IInviteCollaboratorInput) {
+    await this.assertOwner(setId, ownerId);
+
+    const invitee = await this.users.findByUsername(input.username!);
+    if (!invitee) throw new Error("User not found");
+    return this.inviteUser(setId, ownerId, invitee, input.role);
+  }
+
+  // By email: resolves the same way whether or not the address has an account (or is
+  // already on the set), so owners can't use invites to find out who is registered
+  async inviteByEmail(setId: string, ownerId: string, input: IInviteCollaboratorInput) {
+    await this.assertOwner(setId, ownerId);
+
+    const invitee = await this.users.findByEmail(input.email!.toLowerCase());
+    if (!invitee) return;
+    try {
+      await this.inviteUser(setId, ownerId, invitee, input.role);
+    } catch (err: any) {
+      if (!["Cannot invite the owner", "Already a collaborator", "Invitation already pending"].includes(err?.message)) throw err;
+    }
+  }
+
+  private async inviteUser(setId: string, ownerId: string, invitee: { _id: { toString(): string }; email: string }, role: CollaboratorRole) {
+    const inviteeId = invitee._id.toString();
+    if (inviteeId === ownerId) throw new Error("Cannot invite the owner");
+    if (await this.set.getRole(setId, inviteeId)) throw new Error("Already a collaborator");
+
+    const invitation = await this.set.addInvitation(setId, {
+      invitee: new Types.ObjectId(inviteeId),
+      invitedBy: new Types.ObjectId(ownerId),
+      role,
+    });
+    if (!invitation) throw new Error("Invitation already pending");
+
+    // email is best-effort; the invitee also sees it under GET /user/me/invitations
+    try {
+      const [owner, set] = await Promise.all([this.users.findById(ownerId), this.set.findById(setId)]);
+      const appOrigin = process.env.APP_ORIGIN || "http://localhost:3000";
+      await this.email.sendCollaboratorInviteEmail(
+        invitee.email,
+        owner?.username ?? "Someone",
+        set?.name ?? "a set",
+        `${appOrigin}/invitations`
+      );
+    } catch (e) {
+      console.warn("Failed to send collaborator invite email", e);
+    }
+
+    return invitation;
+  }
+
+  async listCollaborators(setId: string, userId: string) {
+    const role = await this.set.getRole(setId, userId);
+    if (!role) throw new Error("Forbidden");
+
+    const set: any = await this.set.findWithCollaborators(setId);
+    if (!set) throw new Error("Set not found");
+
+    const roles: Record<string, CollaboratorRole> = set.collaboratorRoles ?? {};
+    return {
+      owner: set.createdBy,
+      collaborators: (set.collaborators ?? []).map((u: any) => ({
+        user: u,
+        role: roles[u?._id?.toString()] ?? "editor",
+      })),
+      // only the owner manages invitations
+      invitations: role === "owner"
+        ? (set.invitations ?? []).filter((i: any) => i.status === "pending")
+        : undefined,
+    };
+  }
+
+  async listMyInvitations(userId: string) {
+    const sets: any[] = await this.set.findPendingInvitationsFor(userId);
+    return sets.map((s) => ({
+      setId: s._id,
+      setName: s.name,
+      images: s.images,
+      owner: s.createdBy,
+      invitation: s.invitations?.[0],
+    }));
+  }
+
+  async acceptInvitation(setId: string, invitationId: string, userId: string) {
+    const updated = await this.set.acceptInvitation(setId, invitationId, userId);
+    if (!updated) throw new Error("Invitation not found");
+    return { setId, role: updated.collaboratorRoles?.[userId] ?? "editor" };
+  }
+
+  async declineInvitation(setId: string, invitationId: string, userId: string) {
+    const updated = await this.set.closeInvitation(setId, invitationId, "declined", userId);
+    if (!updated) throw new Error("Invitation not found");
+    return { ok: true };
+  }
+
+  async revokeInvitation(setId: string, invitationId: string, ownerId: string) {
+    await this.assertOwner(setId, ownerId);
+    const updated = await this.set.closeInvitation(setId, invitationId, "revoked");
+    if (!updated) throw new Error("Invitation not found");
+    return { ok: true };
+  }
+
+  async updateRole(setId: string, targetUserId: string, role: CollaboratorRole, ownerId: string) {
+    await this.assertOwner(setId, ownerId);
+    const updated = await this.set.setCollaboratorRole(setId, targetUserId, role);
+    if (!updated) throw new Error("Collaborator not found");
+    await this.sets.accessChanged(setId);
+    return { userId: targetUserId, role };
+  }
+
+  // owner can remove anyone; collaborators can remove themselves (leave)
+  async removeCollaborator(setId: string, targetUserId: string, callerId: string) {
+    if (targetUserId !== callerId) await this.assertOwner(setId, callerId);
+    const updated = await this.set.removeCollaborator(setId, targetUserId);
+    if (!updated) throw new Error("Collaborator not found");
+    // their open event streams must stop if the set isn't public
+    await this.sets.accessChanged(setId);
+    return { ok: true };
+  }
+}
@@ -0,0 +1,26 @@
+import EmailService from "./Email.service";
+
+describe("EmailService.sendCollaboratorInviteEmail", () => {
+
+  it("escapes user-supplied names in the body and keeps the subject on one line", async () => {
+    const service = new EmailService();
+    const send = jest.fn().mockResolvedValue({});
+    (service as any).ses = { send };
+
+    await service.sendCollaboratorInviteEmail(
+      "invitee@example.com",
+      "mallory\r\nBcc: everyone@example.com",
+      `<a href="https://phish.example">Claim your prize</a>`,
+      "https://app.example/invitations"
+    );
+
+    const content = send.mock.calls[0][0].input.Content.Simple;
+    expect(content.Subject.Data).toBe(
+      `mallory Bcc: everyone@example.com invited you to collaborate on "<a href="https://phish.example">Claim your prize</a>"`
+    );
+    expect(content.Subject.Data).not.toMatch(/[\r\n]/);
+    expect(content.Body.Html.Data).toContain("&lt;a href=&quot;https://phish.example&quot;&gt;Claim your prize&lt;/a&gt;");
+    expect(content.Body.Html.Data).not.toContain(`<a href="https://phish.example">`);
+  });
+
+});
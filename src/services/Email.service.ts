@@ -2,6 +2,20 @@
 import { SESv2Client, SendEmailCommand } from "@aws-sdk/client-sesv2";
 import { injectable } from "inversify";
 
+// user-supplied text (set names, usernames) must never become markup or extra headers
+export function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function oneLine(value: string) {
+  return value.replace(/[\r\n]+/g, " ").trim();
+}
+
 @injectable()
 export default class EmailService {
 
@@ -35,4 +49,53 @@ export default class EmailService {
     }));
 
   }
+
+  // `setPassword`: the account signs in socially and has no password yet
+  async sendPasswordResetEmail(to: string, link: string, setPassword = false) {
+    const from = process.env.EMAIL_FROM!;
+    const action = setPassword ? "set a password for" : "reset the password of";
+
+    await this.ses.send(new SendEmailCommand({
+      FromEmailAddress: `Goood-Vibez <${from}>`,
+      Destination: { ToAddresses: [to] },
+      Content: {
+        Simple: {
+          Subject: { Data: setPassword ? "Set your password" : "Reset your password" },
+          Body: {
+            Html: {
+              Data: `
+                <p>We received a request to ${action} your account.</p>
+                <p><a href="${link}">${setPassword ? "Set password" : "Reset password"}</a></p>
+                <p>This link expires in 1 hour and works once. If you didn't ask for this, you can ignore this email.</p>`,
+            },
+          },
+        },
+      },
+    }));
+
+  }
+
+  async sendCollaboratorInviteEmail(to: string, inviterName: string, setName: string, link: string) {
+    const from = process.env.EMAIL_FROM!;
+    const inviter = oneLine(inviterName);
+    const set = oneLine(setName);
+
+    await this.ses.send(new SendEmailCommand({
+      FromEmailAddress: `Goood-Vibez <${from}>`,
+      Destination: { ToAddresses: [to] },
+      Content: {
+        Simple: {
+          Subject: { Data: `${inviter} invited you to collaborate on "${set}"` },
+          Body: {
+            Html: {
+              Data: `
+                <p>${escapeHtml(inviter)} invited you to collaborate on the set <strong>${escapeHtml(set)}</strong>.</p>
+                <p><a href="${escapeHtml(link)}">View invitation</a></p>`,
+            },
+          },
+        },
+      },
+    }));
+
+  }
 }
@@ -0,0 +1,322 @@
+import "reflect-metadata";
+import { injectable } from "inversify";
+import ListeningRoomRepository, { ListeningRoom, RoomMember } from "../repos/ListeningRoom.repository";
+import SetService from "./Set.service";
+import SpotifyPlayerService from "./SpotifyPlayer.service";
+import TrackServiceCache from "./TrackCache.service";
+import { publish, subscribe } from "../infra/events";
+import { randomString } from "../utils/pkce";
+
+// host commands racing each other retry their read-modify-write this many times
+const UPDATE_ATTEMPTS = 5;
+// how often one participant's sync catches up with newer room state before giving up
+const SYNC_ROUNDS = 3;
+
+export type RoomControl =
+  | { action: "play" }
+  | { action: "pause" }
+  | { action: "seek"; positionMs: number }
+  | { action: "next" }
+  | { action: "previous" }
+  | { action: "track"; index: number; positionMs?: number };
+
+export type RoomEvent =
+  | { type: "member.joined" | "member.left"; userId: string }
+  | { type: "playback"; state: ReturnType<typeof ListeningRoomService.playbackOf> }
+  | { type: "sync.failed"; userId: string; error: string }
+  | { type: "room.closed" };
+
+// "Listen together": the host drives playback of a set, and every participant's own
+// Spotify player is pointed at the same track and position. State lives in Redis so any
+// API instance can serve a room; events go out over Redis pub/sub to the SSE streams.
+@injectable()
+export default class ListeningRoomService {
+
+  constructor(
+    private rooms: ListeningRoomRepository,
+    private sets: SetService,
+    private player: SpotifyPlayerService,
+    private cache: TrackServiceCache
+  ) { }
+
+  static channel(roomId: string) {
+    return `listening_room_events:${roomId}`;
+  }
+
+  // Where playback should be now: the anchored position plus elapsed time, carried over
+  // into following tracks when their durations are known.
+  static positionAt(room: ListeningRoom, now = Date.now()) {
+    let index = room.index;
+    let positionMs = room.positionMs + (room.isPlaying ? Math.max(0, now - room.anchoredAt) : 0);
+    while (index < room.trackIds.length) {
+      const duration = room.durations[index];
+      if (duration == null || positionMs < duration) break;
+      positionMs -= duration;
+      index++;
+    }
+    if (index >= room.trackIds.length) {
+      // ran off the end of the set: park on the last track's end
+      const last = room.trackIds.length - 1;
+      return { index: last, positionMs: room.durations[last] ?? 0, ended: true };
+    }
+    return { index, positionMs, ended: false };
+  }
+
+  static playbackOf(room: ListeningRoom, now = Date.now()) {
+    const { index, positionMs, ended } = ListeningRoomService.positionAt(room, now);
+    return {
+      index,
+      trackId: room.trackIds[index] ?? null,
+      positionMs,
+      isPlaying: room.isPlaying && !ended,
+      at: now,
+    };
+  }
+
+  private async load(roomId: string) {
+    const room = await this.rooms.get(roomId);
+    if (!room) throw new Error("Room not found");
+    return room;
+  }
+
+  private async loadAsHost(roomId: string, userId: string) {
+    const room = await this.load(roomId);
+    if (room.hostId !== userId) throw new Error("Forbidden");
+    return room;
+  }
+
+  private async assertMember(roomId: string, userId: string) {
+    const member = await this.rooms.getMember(roomId, userId);
+    if (!member) throw new Error("Not a room member");
+    return member;
+  }
+
+  private async emit(roomId: string, event: RoomEvent) {
+    try {
+      await publish(ListeningRoomService.channel(roomId), { ...event, roomId, at: Date.now() });
+    } catch (e) {
+      console.warn("Failed to publish room event", roomId, event.type, e);
+    }
+  }
+
+  // Read-modify-write of the room's playback. The write is a compare-and-set on the room's
+  // version, so when another host command got in between we re-read and apply on top.
+  private async updatePlayback(
+    roomId: string,
+    userId: string,
+    change: (room: ListeningRoom) => Pick<ListeningRoom, "index" | "positionMs" | "isPlaying" | "anchoredAt">
+  ) {
+    for (let attempt = 0; attempt < UPDATE_ATTEMPTS; attempt++) {
+      const room = await this.loadAsHost(roomId, userId);
+      const version = room.version ?? 0;
+      const updated: ListeningRoom = { ...room, ...change(room), version: version + 1 };
+      const result = await this.rooms.replace(updated, version);
+      if (result === "ok") return updated;
+      if (result === "missing") throw new Error("Room not found");
+    }
+    throw new Error("Room is busy, try again");
+  }
+
+  // Point one participant's player at the room's current track/position (paused rooms
+  // start there and pause). A newer command may land while our play request is in
+  // flight, so afterwards we re-read and catch up: the listener ends on the latest state,
+  // not on whichever one was computed last. Failures go to the event stream, not thrown.
+  private async syncMember(room: ListeningRoom, member: RoomMember) {
+    let target = room;
+    try {
+      for (let round = 0; round < SYNC_ROUNDS; round++) {
+        const state = ListeningRoomService.playbackOf(target);
+        if (!state.trackId) return false;
+        await this.player.play(member.userId, {
+          uris: target.trackIds.map((id) => `spotify:track:${id}`),
+          offset: state.index,
+          positionMs: state.positionMs,
+          deviceId: member.deviceId,
+        });
+        if (!state.isPlaying) await this.player.pause(member.userId, member.deviceId);
+
+        const latest = await this.rooms.get(room.roomId);
+        if (!latest || (latest.version ?? 0) <= (target.version ?? 0)) break;
+        target = latest;
+      }
+      return true;
+    } catch (err: any) {
+      await this.emit(room.roomId, { type: "sync.failed", userId: member.userId, error: err?.message ?? "Sync failed" });
+      return false;
+    }
+  }
+
+  private async syncAll(room: ListeningRoom) {
+    const members = await this.rooms.members(room.roomId);
+    await Promise.allSettled(members.map((m) => this.syncMember(room, m)));
+  }
+
+  private async view(room: ListeningRoom) {
+    const members = await this.rooms.members(room.roomId);
+    return {
+      roomId: room.roomId,
+      setId: room.setId,
+      name: room.name,
+      hostId: room.hostId,
+      trackIds: room.trackIds,
+      playback: ListeningRoomService.playbackOf(room),
+      members: members.map((m) => ({ userId: m.userId, joinedAt: new Date(m.joinedAt).toISOString() })),
+      createdAt: new Date(room.createdAt).toISOString(),
+    };
+  }
+
+  // Host opens a room for a set they can see and starts it on their own player
+  async create(hostId: string, setId: string, opts: { startIndex?: number; deviceId?: string }, shareToken?: string) {
+    const { name, trackIds } = await this.sets.playableTracks(setId, hostId, shareToken);
+    const cached = await this.cache.getCached(trackIds);
+    const now = Date.now();
+
+    const room: ListeningRoom = {
+      roomId: randomString(9),
+      setId,
+      hostId,
+      name,
+      trackIds,
+      durations: trackIds.map((id) => cached.get(id)?.duration_ms ?? null),
+      index: Math.min(opts.startIndex ?? 0, trackIds.length - 1),
+      positionMs: 0,
+      anchoredAt: now,
+      isPlaying: true,
+      version: 0,
+      createdAt: now,
+    };
+    if (!(await this.rooms.create(room))) throw new Error("Room could not be created");
+
+    const host: RoomMember = { userId: hostId, deviceId: opts.deviceId, joinedAt: now };
+    await this.rooms.addMember(room.roomId, host);
+    await this.syncMember(room, host);
+
+    return this.view(room);
+  }
+
+  async get(roomId: string, userId: string) {
+    const room = await this.load(roomId);
+    await this.assertMember(roomId, userId);
+    return this.view(room);
+  }
+
+  // Anyone who can see the set can join; their player jumps to the room's position
+  async join(roomId: string, userId: string, opts: { deviceId?: string }, shareToken?: string) {
+    const room = await this.load(roomId);
+    if (userId !== room.hostId) await this.sets.playableTracks(room.setId, userId, shareToken);
+
+    const existing = await this.rooms.getMember(roomId, userId);
+    const member: RoomMember = { userId, deviceId: opts.deviceId ?? existing?.deviceId, joinedAt: existing?.joinedAt ?? Date.now() };
+    await this.rooms.addMember(roomId, member);
+    if (!existing) await this.emit(roomId, { type: "member.joined", userId });
+
+    const synced = await this.syncMember(room, member);
+    return { ...(await this.view(room)), synced };
+  }
+
+  // Re-align one participant (drift, device switch, or after they paused locally)
+  async sync(roomId: string, userId: string, opts: { deviceId?: string }) {
+    const room = await this.load(roomId);
+    const member = await this.assertMember(roomId, userId);
+    const target = opts.deviceId ? { ...member, deviceId: opts.deviceId } : member;
+    if (opts.deviceId) await this.rooms.addMember(roomId, target);
+
+    const synced = await this.syncMember(room, target);
+    return { synced, playback: ListeningRoomService.playbackOf(room) };
+  }
+
+  // The host leaving closes the room for everyone
+  async leave(roomId: string, userId: string) {
+    const room = await this.load(roomId);
+    if (room.hostId === userId) return this.close(roomId, userId);
+
+    const removed = await this.rooms.removeMember(roomId, userId);
+    if (!removed) throw new Error("Not a room member");
+    await this.emit(roomId, { type: "member.left", userId });
+    return { ok: true, roomId };
+  }
+
+  async close(roomId: string, userId: string) {
+    await this.loadAsHost(roomId, userId);
+    await this.rooms.delete(roomId);
+    await this.emit(roomId, { type: "room.closed" });
+    return { ok: true, roomId, closed: true };
+  }
+
+  // Host playback controls: update the room's anchor, then move every participant
+  async control(roomId: string, userId: string, cmd: RoomControl) {
+    const updated = await this.updatePlayback(roomId, userId, (room) => {
+      const now = Date.now();
+      const current = ListeningRoomService.positionAt(room, now);
+      const last = room.trackIds.length - 1;
+
+      switch (cmd.action) {
+        case "play": return { index: current.index, positionMs: current.ended ? 0 : current.positionMs, isPlaying: true, anchoredAt: now };
+        case "pause": return { index: current.index, positionMs: current.positionMs, isPlaying: false, anchoredAt: now };
+        case "seek": return { index: current.index, positionMs: cmd.positionMs, isPlaying: room.isPlaying, anchoredAt: now };
+        case "next":
+          if (current.index >= last) throw new Error("Already at the last track");
+          return { index: current.index + 1, positionMs: 0, isPlaying: true, anchoredAt: now };
+        case "previous": return { index: Math.max(0, current.index - 1), positionMs: 0, isPlaying: true, anchoredAt: now };
+        case "track":
+          if (cmd.index > last) throw new Error("Track index out of range");
+          return { index: cmd.index, positionMs: cmd.positionMs ?? 0, isPlaying: true, anchoredAt: now };
+      }
+    });
+
+    await this.emit(roomId, { type: "playback", state: ListeningRoomService.playbackOf(updated, updated.anchoredAt) });
+    await this.syncAll(updated);
+
+    return this.view(updated);
+  }
+
+  // The host skipped or scrubbed in the Spotify app itself: adopt what their player is
+  // doing (if it's still one of the room's tracks) and fan it out to listeners.
+  async followHost(roomId: string, userId: string) {
+    await this.loadAsHost(roomId, userId);
+    const now = await this.player.nowPlaying(userId);
+
+    const updated = await this.updatePlayback(roomId, userId, (room) => {
+      const index = now.track ? room.trackIds.indexOf(now.track.id) : -1;
+      if (index < 0) throw new Error("Host is not playing a track from this room");
+      return {
+        index,
+        positionMs: now.progressMs ?? 0,
+        isPlaying: now.playing,
+        anchoredAt: Date.parse(now.fetchedAt),
+      };
+    });
+    await this.emit(roomId, { type: "playback", state: ListeningRoomService.playbackOf(updated) });
+
+    // the host is already where they want to be; move everyone else
+    const members = (await this.rooms.members(roomId)).filter((m) => m.userId !== userId);
+    await Promise.allSettled(members.map((m) => this.syncMember(updated, m)));
+
+    return this.view(updated);
+  }
+
+  // SSE feed: the current state first, then room events as they happen. Subscribed before
+  // the state is read so nothing falls in between; events arriving meanwhile follow `state`.
+  async events(roomId: string, userId: string, send: (event: string, data: unknown) => void) {
+    await this.load(roomId);
+    await this.assertMember(roomId, userId);
+
+    let held: RoomEvent[] | null = [];
+    const unsubscribe = await subscribe(ListeningRoomService.channel(roomId), (event: RoomEvent) => {
+      if (held) held.push(event);
+      else send(event.type, event);
+    });
+
+    try {
+      send("state", await this.view(await this.load(roomId)));
+    } catch (err) {
+      await unsubscribe();
+      throw err;
+    }
+    const pending = held;
+    held = null;
+    for (const event of pending) send(event.type, event);
+    return unsubscribe;
+  }
+
+}
@@ -0,0 +1,59 @@
+import "reflect-metadata";
+import { injectable } from "inversify";
+import SetRepository from "../repos/Set.repository";
+import TrackServiceCache from "./TrackCache.service";
+import type { SetSong } from "../models/set.model";
+import { ICatalogSearchQuery } from "../interfaces/search.interface";
+
+@injectable()
+export default class SearchService {
+  constructor(private set: SetRepository, private cache: TrackServiceCache) { }
+
+  private static terms(q: string) {
+    return q.toLowerCase().split(/\s+/).map(t => t.replace(/^"+|"+$/g, "")).filter(Boolean);
+  }
+
+  // which songs in a set matched the query, so the UI can show why the set came back
+  private static matchedSongs(songs: SetSong[] | undefined, terms: string[]) {
+    return (songs ?? []).filter(s => {
+      const hay = `${s.title ?? ""} ${s.artists ?? ""}`.toLowerCase();
+      return terms.some(t => hay.includes(t));
+    });
+  }
+
+  async search(query: ICatalogSearchQuery) {
+    const terms = SearchService.terms(query.q);
+    const wantSets = query.type !== "tracks";
+    const wantTracks = query.type !== "sets";
+
+    const [sets, tracks] = await Promise.all([
+      wantSets ? this.set.searchText(query.q, query.limit) : Promise.resolve([]),
+      wantTracks ? this.cache.search(query.q, query.limit) : Promise.resolve([]),
+    ]);
+
+    return {
+      query: query.q,
+      results: {
+        sets: sets.map((s: any) => {
+          const { songs, lovedBy, ...rest } = s;
+          return {
+            ...rest,
+            songCount: (songs ?? []).length,
+            lovedCount: (lovedBy ?? []).length,
+            matchedSongs: SearchService.matchedSongs(songs, terms),
+          };
+        }),
+        tracks: tracks.map((t) => ({
+          trackId: t.trackId,
+          name: t.name,
+          artists: t.artists,
+          album: t.album,
+          duration_ms: t.duration_ms,
+          uri: t.uri,
+          external_url: t.external_url,
+          score: t.score,
+        })),
+      },
+    };
+  }
+}
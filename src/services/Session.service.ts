@@ -0,0 +1,140 @@
+import "reflect-metadata";
+import crypto from "crypto";
+import { injectable } from "inversify";
+import { Request, Response } from "express";
+import SessionRepository, { SessionRecord } from "../repos/Session.repository";
+import UserRepository from "../repos/User.repository";
+import AuthTokenService, { ACCESS_TOKEN_TTL_SECONDS } from "./AuthToken.service";
+
+// a refresh token presented again this soon after rotating is a concurrent refresh (two
+// tabs), not a replay: it gets an access token but no new refresh token
+const REUSE_GRACE_MS = 10_000;
+
+const sha256 = (v: string) => crypto.createHash("sha256").update(v).digest("base64url");
+
+export type SessionSubject = { _id: unknown; username: string; plan: string };
+
+// Short-lived access JWTs carry a session id (`sid`); the session itself lives in Redis
+// with the hash of its current refresh token. Refreshing rotates that token; presenting
+// an already-rotated one means it leaked, so the whole session is revoked.
+@injectable()
+export default class SessionService {
+
+  constructor(private sessions: SessionRepository, private users: UserRepository, private auth: AuthTokenService) { }
+
+  static ttlSeconds(remember: boolean) {
+    return remember ? 30 * 24 * 3600 : 7 * 24 * 3600;
+  }
+
+  // refresh tokens are "<sid>.<secret>" so the session can be found without a scan
+  private static newRefreshToken(sid: string) {
+    return `${sid}.${crypto.randomBytes(32).toString("base64url")}`;
+  }
+
+  private static parseRefreshToken(token: string) {
+    const [sid, secret] = token.split(".");
+    if (!sid || !secret) return undefined;
+    return { sid, hash: sha256(token) };
+  }
+
+  private accessToken(user: SessionSubject, sid: string) {
+    return this.auth.makeAccessToken({ sub: String(user._id), username: user.username, plan: user.plan, sid });
+  }
+
+  // Login/verify/OAuth: open a session and set the cookies. The tokens are also returned
+  // for API clients that send `Authorization: Bearer` and refresh with a body token.
+  async start(req: Request, res: Response, user: SessionSubject, remember = true) {
+    const sid = crypto.randomBytes(16).toString("base64url");
+    const refreshToken = SessionService.newRefreshToken(sid);
+    const now = Date.now();
+    const ttl = SessionService.ttlSeconds(remember);
+
+    await this.sessions.create({
+      sid,
+      userId: String(user._id),
+      remember,
+      createdAt: now,
+      lastUsedAt: now,
+      userAgent: req.headers["user-agent"]?.slice(0, 300),
+      ip: req.ip,
+      refreshHash: sha256(refreshToken),
+    }, ttl);
+
+    const accessToken = this.accessToken(user, sid);
+    const csrfToken = this.auth.setSessionCookies(res, { accessToken, refreshToken }, ttl);
+    return { sid, accessToken, refreshToken, csrfToken, expiresIn: ACCESS_TOKEN_TTL_SECONDS };
+  }
+
+  async refresh(res: Response, presented: string) {
+    const parsed = SessionService.parseRefreshToken(presented);
+    if (!parsed) throw new Error("Invalid refresh token");
+
+    const session = await this.sessions.get(parsed.sid);
+    if (!session) throw new Error("Session expired");
+
+    const user = await this.users.findById(session.userId);
+    if (!user) {
+      await this.revokeRecord(session);
+      throw new Error("Session expired");
+    }
+
+    const ttl = SessionService.ttlSeconds(session.remember);
+    const next = SessionService.newRefreshToken(session.sid);
+    if (await this.sessions.rotate(session.sid, parsed.hash, sha256(next), ttl)) {
+      const accessToken = this.accessToken(user, session.sid);
+      const csrfToken = this.auth.setSessionCookies(res, { accessToken, refreshToken: next }, ttl);
+      return { accessToken, refreshToken: next, csrfToken, expiresIn: ACCESS_TOKEN_TTL_SECONDS };
+    }
+
+    // not the current token: the one just replaced (within the grace window) is a racing
+    // refresh from the same client; anything else is a replay of a stolen token
+    const latest = await this.sessions.get(session.sid);
+    if (latest && latest.prevHash === parsed.hash && Date.now() - (latest.rotatedAt ?? 0) < REUSE_GRACE_MS) {
+      const accessToken = this.accessToken(user, session.sid);
+      this.auth.setAccessCookie(res, accessToken);
+      return { accessToken, refreshToken: null, csrfToken: null, expiresIn: ACCESS_TOKEN_TTL_SECONDS };
+    }
+
+    await this.revokeRecord(latest ?? session);
+    throw new Error("Refresh token reuse detected");
+  }
+
+  private async revokeRecord(session: Pick<SessionRecord, "sid" | "userId">) {
+    return this.sessions.revoke(session.sid, session.userId, ACCESS_TOKEN_TTL_SECONDS);
+  }
+
+  async isRevoked(sid: string) {
+    return this.sessions.isRevoked(sid);
+  }
+
+  async list(userId: string, currentSid?: string) {
+    const sessions = await this.sessions.listForUser(userId);
+    return sessions
+      .sort((a, b) => b.lastUsedAt - a.lastUsedAt)
+      .map(s => ({
+        id: s.sid,
+        current: s.sid === currentSid,
+        userAgent: s.userAgent ?? null,
+        ip: s.ip ?? null,
+        createdAt: new Date(s.createdAt).toISOString(),
+        lastUsedAt: new Date(s.lastUsedAt).toISOString(),
+      }));
+  }
+
+  async revoke(userId: string, sid: string) {
+    const session = await this.sessions.get(sid);
+    // someone else's session looks the same as a missing one
+    if (!session || session.userId !== userId) throw new Error("Session not found");
+    await this.revokeRecord(session);
+    return { ok: true, id: sid };
+  }
+
+  // "Log out everywhere": every session of the user, optionally keeping one (the caller's)
+  async revokeAll(userId: string, exceptSid?: string) {
+    const sessions = await this.sessions.listForUser(userId);
+    const targets = sessions.filter(s => s.sid !== exceptSid);
+    await Promise.all(targets.map(s => this.revokeRecord(s)));
+    return { ok: true, revoked: targets.length };
+  }
+
+}
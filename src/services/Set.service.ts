@@ -2,11 +2,47 @@ import "reflect-metadata";
 import { injectable, inject } from "inversify";
 import SetRepository from "../repos/Set.repository";
 import UserRepository from "../repos/User.repository";
+import SetVersionRepository from "../repos/SetVersion.repository";
 import SpotifyService from "./Spotify.service";
+import SpotifyPlaylistService, { parseSpotifyCollection } from "./SpotifyPlaylist.service";
 import TrackServiceCache from './TrackCache.service';
 import { Set as SetModel } from "../models/set.model";
-import type { SetSong } from "../models/set.model";
+import type { SetDoc, SetRole, SetSong, SetSuggestion, SetVisibility } from "../models/set.model";
+import type { SetSnapshot, SetVersionAction } from "../models/setVersion.model";
+import { Types } from "mongoose";
 import { ICreateSetInput } from "../interfaces/set.interface";
+import { ICreateSuggestionInput } from "../interfaces/suggestion.interface";
+import { IImportSetInput } from "../interfaces/spotifyPlaylist.interface";
+import { IListSetsQuery } from "../interfaces/setList.interface";
+import { redisClient } from "../infra/redis";
+import { publish, subscribe } from "../infra/events";
+import { randomString } from "../utils/pkce";
+
+const TAGS_CACHE_KEY = "sets:tags";
+const TAGS_CACHE_TTL = 60 * 5; // 5 minutes
+const MAX_IMPORT_TRACKS = 1000;
+
+// versions that can change the song order; linked Spotify playlists follow these
+const SONG_ACTIONS: SetVersionAction[] = ["songs.add", "songs.replace", "songs.remove", "songs.move", "suggestion.accept", "spotify.sync", "revert"];
+
+// What GET /sets/:setId/events streams (each also carries setId and `at`). Versioned writes
+// are named after their history action and carry the new content; `songs` only when the
+// order can have changed.
+export type SetEvent =
+  | {
+    type: SetVersionAction; userId: string; version: number;
+    name: string; description: string | null; tags: string[]; images: string[]; visibility: SetVisibility;
+    songs?: SetSong[]; suggestionId?: string; revertedTo?: number;
+  }
+  | { type: "suggestion.create"; userId: string; suggestion: SetSuggestion }
+  | { type: "suggestion.reject"; userId: string; suggestionId: string }
+  | { type: "love.add" | "love.remove"; userId: string; count: number }
+  | { type: "owner.transfer"; userId: string; ownerId: string }
+  | { type: "set.delete" | "set.restore" | "set.purge"; userId: string }
+  // not forwarded: tells open streams to re-check that their viewer may still see the set
+  | { type: "access.change" };
+
+type SongOrderItem = string | { id: string; title?: string; artists?: any; image?: string };
 
 function looksLikeSpotifyId(id: string) {
   return /^[A-Za-z0-9]{22}$/.test(id); // Spotify track id format
@@ -17,7 +53,8 @@ function isTrackId(v: string) { return /^[A-Za-z0-9]{22}$/.test(normalize(v)); }
 
 @injectable()
 export default class SetService {
-  constructor(private set: SetRepository, private user: UserRepository, private spotify: SpotifyService, private cache: TrackServiceCache
+  constructor(private set: SetRepository, private user: UserRepository, private spotify: SpotifyService, private cache: TrackServiceCache,
+    private playlists: SpotifyPlaylistService, private versions: SetVersionRepository
   ) { }
 
   // pick first up to 5 non-empty images from a songs array
@@ -34,15 +71,26 @@ export default class SetService {
       // now persisting full song objects (id, title, artists, image)
       songs: input.songs ?? [],
       tags: input.tags ?? [],
-      collaborators: input.collaborators ?? [],
+      // collaborators named on create are invited (editor role) rather than added outright
+      invitations: Array.from(new Set(input.collaborators ?? []))
+        .filter(id => Types.ObjectId.isValid(id) && id !== userId)
+        .map(id => ({ invitee: id, invitedBy: userId, role: "editor", status: "pending" })),
       // prefer provided images, otherwise derive from provided songs
       images: (input.images && input.images.length ? input.images : (SetService.imagesFromSongs(input.songs ?? []))),
       createdBy: userId,
+      visibility: input.visibility ?? "public",
+      version: 1,
     };
 
     const doc = new SetModel(toSave);
     await doc.save();
 
+    try {
+      await this.versions.record(doc.toObject(), userId, "create");
+    } catch (err) {
+      console.warn("Failed to record initial set version:", err);
+    }
+
     // ensure the user's `sets` array includes this new set
     try {
       await this.user.pushSet(userId, doc._id.toString());
@@ -54,19 +102,184 @@ export default class SetService {
     return doc.toObject();
   }
 
+  // POST /sets/import — new set prefilled from a Spotify playlist or album. Tracks are
+  // hydrated through the TrackCache (warming it for later reads); ones Spotify can't
+  // resolve are reported as skipped.
+  async importSet(userId: string, input: IImportSetInput) {
+    const ref = parseSpotifyCollection(input.source);
+    if (!ref) throw new Error("Unsupported Spotify link");
+
+    const accessToken = await this.spotify.ensureAccessToken(userId);
+    const collection = await this.playlists.getCollection(accessToken, ref, MAX_IMPORT_TRACKS + 1);
+    const truncated = collection.trackIds.length > MAX_IMPORT_TRACKS;
+    const trackIds = Array.from(new Set(collection.trackIds.slice(0, MAX_IMPORT_TRACKS)));
+
+    const hydrated = trackIds.length ? await this.cache.getManyWithHydrate(accessToken, trackIds) : [];
+    const byId = new Map(hydrated.map(t => [t.trackId, t]));
+    const songs: SetSong[] = [];
+    for (const id of trackIds) {
+      const t = byId.get(id);
+      if (!t) continue;
+      songs.push({
+        id,
+        title: t.name,
+        artists: (t.artists ?? []).map(a => a.name).join(", ") || undefined,
+        image: t.album?.image,
+      });
+    }
+    if (!songs.length) throw new Error("Nothing to import");
+
+    const set = await this.createSet(userId, {
+      name: (input.name ?? collection.name).slice(0, 120) || "Imported set",
+      description: (input.description !== undefined ? input.description : collection.description.slice(0, 500)) || undefined,
+      songs,
+      tags: input.tags ?? [],
+      collaborators: [],
+      images: collection.images.slice(0, 5),
+      visibility: input.visibility,
+      createdBy: userId,
+    });
+
+    return {
+      set,
+      source: ref,
+      imported: songs.length,
+      skipped: trackIds.filter(id => !byId.has(id)),
+      truncated,
+    };
+  }
+
   private async assertCanEdit(setId: string, userId: string) {
     const ok = await this.set.isEditor(setId, userId);
     if (!ok) throw new Error("Forbidden");
   }
 
-  async addSongs(setId: string, userId: string, trackIds: string[]) {
+  private async assertRole(setId: string, userId: string, allowed: SetRole[]) {
+    const role = await this.set.getRole(setId, userId);
+    if (!role || !allowed.includes(role)) throw new Error("Forbidden");
+    return role;
+  }
+
+  // public: anyone; unlisted: members or a valid share token; private: members only.
+  // Hidden sets look exactly like missing ones so their existence isn't leaked.
+  private async canView(set: Pick<SetDoc, "_id" | "visibility">, viewerId?: string, shareToken?: string) {
+    if (!set.visibility || set.visibility === "public") return true;
+    const setId = set._id.toString();
+    if (viewerId && await this.set.getRole(setId, viewerId)) return true;
+    if (set.visibility !== "unlisted" || !shareToken) return false;
+    return !!(await this.set.findByShareToken(setId, shareToken));
+  }
+
+  private async assertCanView(setId: string, viewerId?: string, shareToken?: string) {
+    const set = await this.set.findById(setId);
+    if (!set || !(await this.canView(set, viewerId, shareToken))) throw new Error("Set not found");
+    return set;
+  }
+
+  // for services below this one (which can't inject it) that must re-check access later on
+  async isVisibleTo(setId: string, viewerId?: string, shareToken?: string) {
+    return this.assertCanView(setId, viewerId, shareToken).then(() => true, () => false);
+  }
+
+  static channel(setId: string) {
+    return `set_events:${setId}`;
+  }
+
+  // Live updates are best-effort: a Redis hiccup must never fail the write it describes
+  private async emit(setId: string, event: SetEvent) {
+    try {
+      await publish(SetService.channel(setId), { ...event, setId, at: Date.now() });
+    } catch (err) {
+      console.warn("Failed to publish set event", setId, event.type, err);
+    }
+  }
+
+  // for membership changes made elsewhere (CollaboratorService): open streams re-check their viewer
+  async accessChanged(setId: string) {
+    await this.emit(setId, { type: "access.change" });
+  }
+
+  // snapshot a just-written set into the history collection and tell open streams
+  private async recordVersion(doc: SetDoc, userId: string, action: SetVersionAction, extra?: { suggestionId?: string; revertedTo?: number }) {
+    const setId = doc._id.toString();
+    try {
+      await this.versions.record(doc, userId, action, extra);
+    } catch (err) {
+      console.warn("Failed to record set version", setId, action, err);
+    }
+    const songsChanged = SONG_ACTIONS.includes(action);
+    if (songsChanged) {
+      // fire-and-forget: Spotify latency shouldn't hold up the edit
+      void this.playlists.pushSet(
+        setId,
+        (doc.songs ?? []).map(s => s.id).filter(looksLikeSpotifyId),
+        (viewerId) => this.isVisibleTo(setId, viewerId)
+      );
+    }
+    await this.emit(setId, {
+      type: action,
+      userId,
+      version: doc.version ?? 0,
+      name: doc.name,
+      description: doc.description ?? null,
+      tags: doc.tags ?? [],
+      images: doc.images ?? [],
+      visibility: doc.visibility ?? "public",
+      ...(songsChanged ? { songs: doc.songs ?? [] } : {}),
+      ...extra,
+    });
+    return doc.version;
+  }
+
+  // The caller's If-Match version must match what we read; the write itself is then
+  // guarded by the version we read, so a concurrent edit between read and write also
+  // surfaces as a conflict instead of being silently overwritten.
+  private static guardVersion(set: SetDoc, expectedVersion?: number) {
+    const current = set.version ?? 0;
+    if (expectedVersion !== undefined && expectedVersion !== current) return undefined;
+    return current;
+  }
+
+  private async conflict(setId: string): Promise<never> {
+    const current = await this.set.findById(setId);
+    if (!current) throw new Error("Set not found");
+    const err: any = new Error("Version conflict");
+    err.status = 409;
+    err.current = current;
+    throw err;
+  }
+
+  // single versioned write; throws "Version conflict" (with the current state) when the guard fails
+  private async writeContent(set: SetDoc, patch: Parameters<SetRepository["updateContent"]>[1], expectedVersion?: number) {
+    const setId = set._id.toString();
+    const guard = SetService.guardVersion(set, expectedVersion);
+    if (guard === undefined) return this.conflict(setId);
+
+    const updated = await this.set.updateContent(setId, patch, guard);
+    if (!updated) return this.conflict(setId);
+    return updated;
+  }
+
+  // defensive normalization for various TrackCacheDoc shapes
+  private static songFromHydrated(h: any): SetSong | null {
+    const trackId = h?.trackId ?? h?.id ?? undefined;
+    if (!trackId) return null;
+    const title = h?.title ?? h?.name ?? h?.trackName ?? "";
+    // Preserve the artists value as provided by the cache/backend (do not coerce)
+    const artists = h?.artists ?? h?.artistName ?? undefined;
+    const image =
+      h?.image ??
+      h?.albumImage ??
+      (h?.album && Array.isArray(h.album.images) && h.album.images[0] ? h.album.images[0].url : undefined);
+    return { id: trackId, title, artists, image } as SetSong;
+  }
+
+  async addSongs(setId: string, userId: string, trackIds: string[], expectedVersion?: number) {
     await this.assertCanEdit(setId, userId);
 
     const set = await this.set.findById(setId);
     if (!set) throw new Error("Set not found");
 
-    console.log("Set before adding songs", set);
-
     // current is an array of song objects
     const current: SetSong[] = (set.songs ?? []) as SetSong[];
     const currentIds = current.map(s => s.id);
@@ -75,7 +288,7 @@ export default class SetService {
     const incoming = Array.from(new Set(trackIds)).filter(id => !currentIds.includes(id));
 
     if (incoming.length === 0) {
-      return { songs: current, added: 0, addedTracks: [], skipped: [] };
+      return { songs: current, added: 0, addedTracks: [], skipped: [], version: set.version ?? 0 };
     }
 
     // 2) hydrate via Spotify -> only IDs that *really* exist will come back
@@ -87,47 +300,23 @@ export default class SetService {
     const skipped = incoming.filter(id => !validIds.includes(id));
 
     // 4) append only valid new IDs, preserve order
-    // Convert hydrated items to SetSong objects (be defensive about property names)
     const toAdd: SetSong[] = hydrated
-      .map((h: any) => {
-        // defensive normalization for various TrackCacheDoc shapes
-        const trackId = h?.trackId ?? h?.id ?? undefined;
-        const title = h?.title ?? h?.name ?? h?.trackName ?? "";
-        // Preserve the artists value as provided by the cache/backend (do not coerce)
-        const artists = h?.artists ?? h?.artistName ?? undefined;
-        const image =
-          h?.image ??
-          h?.albumImage ??
-          (h?.album && Array.isArray(h.album.images) && h.album.images[0] ? h.album.images[0].url : undefined);
-
-        if (!trackId) return null;
-        return { id: trackId, title, artists, image } as SetSong;
-      })
+      .map(h => SetService.songFromHydrated(h))
       .filter((s): s is SetSong => !!s);
 
     const next: SetSong[] = current.concat(toAdd);
-    // persist songs and update images to reflect newest first-5 images
-    await this.set.setSongs(setId, next);
-    try {
-      const imgs = SetService.imagesFromSongs(next);
-      if (imgs.length) {
-        await SetModel.findByIdAndUpdate(setId, { images: imgs }).exec();
-      }
-    } catch (e) {
-      console.warn("Failed to update set images after addSongs", e);
-    }
+    // persist songs and the newest first-5 images together
+    const imgs = SetService.imagesFromSongs(next);
+    const updated = await this.writeContent(set, { songs: next, ...(imgs.length ? { images: imgs } : {}) }, expectedVersion);
 
-    return { songs: next, added: toAdd.length, addedTracks: hydrated, skipped };
-  }
+    const version = await this.recordVersion(updated, userId, "songs.add");
 
-  // finalOrder may be an array of string ids OR objects { id, title, artists, image }
-  async replaceSongs(setId: string, userId: string, finalOrder: (string | { id: string; title?: string; artists?: any; image?: string })[]) {
-    await this.assertCanEdit(setId, userId);
-
-    const set = await this.set.findById(setId);
-    if (!set) throw new Error("Set not found");
+    return { songs: next, added: toAdd.length, addedTracks: hydrated, skipped, version };
+  }
 
-    const current: SetSong[] = (set.songs ?? []) as SetSong[];
+  // Resolve a requested order (ids or song objects) against the current songs, hydrating
+  // any new ids through TrackCache/Spotify. Unknown ids are skipped.
+  private async buildSongList(current: SetSong[], userId: string, finalOrder: SongOrderItem[]) {
     const currentIds = current.map(s => s.id);
 
     // Build map of existing song objects
@@ -155,27 +344,14 @@ export default class SetService {
     }
 
     // Hydrate any new ids via TrackCache/Spotify
-    let hydratedMap = new Map<string, any>();
+    const hydratedMap = new Map<string, SetSong>();
     if (toHydrateIds.length > 0) {
       const accessToken = await this.spotify.ensureAccessToken(userId);
       try {
         const hydrated = await this.cache.getManyWithHydrate(accessToken, toHydrateIds); // TrackCacheDoc[]
         for (const h of hydrated) {
-          if (!h) continue;
-          const trackId = (h as any).trackId ?? (h as any).id;
-          if (!trackId) continue;
-          const title = (h as any).title ?? (h as any).name ?? (h as any).trackName ?? "";
-          // Preserve artists value as-is (string, array or object) — don't coerce
-          const artists = (h as any).artists ?? (h as any).artistName ?? undefined;
-          const image =
-            (h as any).image ??
-            (h as any).albumImage ??
-            ((h as any).album && Array.isArray((h as any).album.images) && (h as any).album.images[0]
-              ? (h as any).album.images[0].url
-              : undefined);
-
-          const songObj: SetSong = { id: trackId, title, artists, image };
-          hydratedMap.set(trackId, songObj);
+          const songObj = SetService.songFromHydrated(h);
+          if (songObj) hydratedMap.set(songObj.id, songObj);
         }
       } catch (err) {
         console.warn("replaceSongs: hydration failed for new ids", toHydrateIds, err);
@@ -187,7 +363,6 @@ export default class SetService {
     const next: SetSong[] = [];
     const nextIds: string[] = [];
     for (const id of normalizedOrder) {
-      if (nextIds.includes(id)) continue; // dedupe
       // Prefer provided song object from request (keeps client-supplied image)
       let song: SetSong | undefined = undefined;
       if (providedSongMap.has(id)) {
@@ -207,19 +382,35 @@ export default class SetService {
     }
 
     const removed = current.filter(s => !nextIds.includes(s.id));
-    const orderChanged = JSON.stringify(current.map(s => s.id)) !== JSON.stringify(nextIds);
+    const orderChanged = JSON.stringify(currentIds) !== JSON.stringify(nextIds);
 
-    // persist full song objects
-    await this.set.setSongs(setId, next);
-    // update images to reflect new song order (first up-to-5 images)
-    try {
-      const imgs = SetService.imagesFromSongs(next);
-      await SetModel.findByIdAndUpdate(setId, { images: imgs }).exec();
-    } catch (e) {
-      console.warn("replaceSongs: failed to update images", e);
-    }
+    return { next, removed, orderChanged };
+  }
+
+  // finalOrder may be an array of string ids OR objects { id, title, artists, image }
+  // `history` labels the version this produces (accepted suggestions pass their id)
+  async replaceSongs(
+    setId: string,
+    userId: string,
+    finalOrder: SongOrderItem[],
+    history: { action: SetVersionAction; suggestionId?: string } = { action: "songs.replace" },
+    expectedVersion?: number
+  ) {
+    await this.assertCanEdit(setId, userId);
+
+    const set = await this.set.findById(setId);
+    if (!set) throw new Error("Set not found");
+
+    const current: SetSong[] = (set.songs ?? []) as SetSong[];
+    const { next, removed, orderChanged } = await this.buildSongList(current, userId, finalOrder);
+
+    // persist full song objects and images for the new order (first up-to-5) together
+    const updated = await this.writeContent(set, { songs: next, images: SetService.imagesFromSongs(next) }, expectedVersion);
+
+    const version = await this.recordVersion(updated, userId, history.action, { suggestionId: history.suggestionId });
 
     return {
+      version,
       songs: next,
       removedCount: removed.length,
       removed,
@@ -228,27 +419,31 @@ export default class SetService {
     };
   }
 
-  async updateSetBasic(setId: string, userId: string, patch: { name?: string; description?: string | null; tags?: string[]; images?: string[] }) {
+  async updateSetBasic(
+    setId: string,
+    userId: string,
+    patch: { name?: string; description?: string | null; tags?: string[]; images?: string[]; visibility?: SetVisibility },
+    expectedVersion?: number
+  ) {
     await this.assertCanEdit(setId, userId);
 
-    const exists = await this.set.findById(setId);
-    if (!exists) throw new Error("Set not found");
+    const set = await this.set.findById(setId);
+    if (!set) throw new Error("Set not found");
+    // publishing or hiding a set is the owner's call, not an editor's
+    if (patch.visibility !== undefined && set.createdBy.toString() !== userId) throw new Error("Forbidden");
 
-    // update basic fields via repository
-    const updated = await this.set.updateBasic(setId, {
+    // only fields present in the patch are written; null clears the description
+    const updated = await this.writeContent(set, {
       name: patch.name,
-      description: patch.description ?? null,
-      tags: patch.tags ?? [],
-    });
-    if (!updated) throw new Error("Set not found");
+      description: patch.description,
+      tags: patch.tags,
+      ...(Array.isArray(patch.images) ? { images: patch.images } : {}),
+      ...(patch.visibility !== undefined ? { visibility: patch.visibility } : {}),
+    }, expectedVersion);
 
-    // if images provided, persist them as well
-    if (Array.isArray(patch.images)) {
-      try {
-        await SetModel.findByIdAndUpdate(setId, { images: patch.images }).exec();
-      } catch (e) {
-        console.warn("updateSetBasic: failed to persist images", e);
-      }
+    await this.recordVersion(updated, userId, "metadata.update");
+    if (patch.visibility !== undefined && patch.visibility !== (set.visibility ?? "public")) {
+      await this.emit(setId, { type: "access.change" });
     }
 
     // If you cache hydrated set views in Redis, bust here:
@@ -257,4 +452,653 @@ export default class SetService {
     return updated;
   }
 
-}
\ No newline at end of file
+  // PATCH /sets/:setId/full — metadata, songs and images in one versioned write.
+  // Images: explicit list wins, otherwise the first 5 song images.
+  async updateFull(
+    setId: string,
+    userId: string,
+    input: { name?: string; description?: string | null; tags?: string[]; images?: string[]; songs: SongOrderItem[] },
+    expectedVersion?: number
+  ) {
+    await this.assertCanEdit(setId, userId);
+
+    const set = await this.set.findById(setId);
+    if (!set) throw new Error("Set not found");
+
+    const { next } = await this.buildSongList((set.songs ?? []) as SetSong[], userId, input.songs);
+    const images = input.images && input.images.length ? input.images : SetService.imagesFromSongs(next);
+
+    const updated = await this.writeContent(set, {
+      name: input.name,
+      description: input.description,
+      tags: input.tags,
+      songs: next,
+      ...(images.length ? { images } : {}),
+    }, expectedVersion);
+
+    await this.recordVersion(updated, userId, "songs.replace");
+
+    return updated;
+  }
+
+  // ---- Reads ----
+
+  // Single set with each song merged with its TrackCache entry. Cache-only, so no
+  // Spotify token is needed; a signed-in viewer or share token is only required for
+  // non-public sets.
+  async getSet(setId: string, viewerId?: string, shareToken?: string) {
+    if (!Types.ObjectId.isValid(setId)) throw new Error("Set not found");
+
+    const set = await this.set.findByIdPopulated(setId);
+    if (!set || !(await this.canView(set, viewerId, shareToken))) throw new Error("Set not found");
+
+    const songs: SetSong[] = set.songs ?? [];
+    const cached = await this.cache.getCached(songs.map(s => s.id));
+
+    let totalDurationMs = 0;
+    let missingDurations = 0;
+    const hydrated = songs.map(s => {
+      const t = cached.get(s.id);
+      if (t?.duration_ms) totalDurationMs += t.duration_ms;
+      else missingDurations++;
+      return {
+        ...s,
+        duration_ms: t?.duration_ms ?? null,
+        album: t?.album ?? null,
+        explicit: t?.explicit ?? null,
+        popularity: t?.popularity ?? null,
+        external_url: t?.external_url ?? null,
+      };
+    });
+
+    const lovedBy: Types.ObjectId[] = set.lovedBy ?? [];
+    return {
+      ...set,
+      songs: hydrated,
+      lovedBy: undefined,
+      lovedCount: lovedBy.length,
+      lovedByMe: viewerId ? lovedBy.some(id => id.toString() === viewerId) : false,
+      role: viewerId ? await this.set.getRole(setId, viewerId) : null,
+      totalDurationMs,
+      // songs with no cached duration (not yet hydrated) aren't in totalDurationMs
+      missingDurations,
+      version: set.version ?? 0,
+    };
+  }
+
+  // ---- Granular edits (atomic array updates, no full-array rewrite) ----
+
+  // atomic ops don't need a read-guard; a null result is a missing set or a failed If-Match
+  private async atomicResult(setId: string, updated: SetDoc | null, expectedVersion?: number) {
+    if (updated) return updated;
+    if (expectedVersion !== undefined) return this.conflict(setId);
+    throw new Error("Set not found");
+  }
+
+  async removeSongs(setId: string, userId: string, trackIds: string[], expectedVersion?: number) {
+    await this.assertCanEdit(setId, userId);
+
+    const ids = Array.from(new Set(trackIds.map(normalize)));
+    const updated = await this.atomicResult(setId, await this.set.removeSongs(setId, ids, expectedVersion), expectedVersion);
+
+    const version = await this.recordVersion(updated, userId, "songs.remove");
+    return { version, songs: updated.songs, length: updated.songs.length };
+  }
+
+  async moveSong(setId: string, userId: string, fromIndex: number, toIndex: number, expectedVersion?: number) {
+    await this.assertCanEdit(setId, userId);
+
+    const updated = await this.set.moveSong(setId, fromIndex, toIndex, expectedVersion);
+    if (!updated) {
+      const set = await this.set.findById(setId);
+      if (!set) throw new Error("Set not found");
+      if (fromIndex >= (set.songs ?? []).length) throw new Error("fromIndex out of range");
+      return this.conflict(setId);
+    }
+
+    const version = await this.recordVersion(updated, userId, "songs.move");
+    return { version, songs: updated.songs, length: updated.songs.length };
+  }
+
+  async addTags(setId: string, userId: string, tags: string[], expectedVersion?: number) {
+    await this.assertCanEdit(setId, userId);
+
+    const updated = await this.atomicResult(setId, await this.set.addTags(setId, tags, expectedVersion), expectedVersion);
+
+    const version = await this.recordVersion(updated, userId, "tags.add");
+    return { version, tags: updated.tags };
+  }
+
+  async removeTags(setId: string, userId: string, tags: string[], expectedVersion?: number) {
+    await this.assertCanEdit(setId, userId);
+
+    const updated = await this.atomicResult(setId, await this.set.removeTags(setId, tags, expectedVersion), expectedVersion);
+
+    const version = await this.recordVersion(updated, userId, "tags.remove");
+    return { version, tags: updated.tags };
+  }
+
+  // ---- Listing ----
+
+  private static cursorSortField = {
+    recent: "createdAt",
+    loved: "lovedCount",
+    collab: "collabCount",
+  } as const;
+
+  private static encodeCursor(value: any, id: Types.ObjectId) {
+    const v = value instanceof Date ? { d: value.toISOString() } : { n: value };
+    return Buffer.from(JSON.stringify({ ...v, id: id.toString() })).toString("base64url");
+  }
+
+  private static decodeCursor(cursor: string) {
+    try {
+      const raw = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+      if (!Types.ObjectId.isValid(raw.id)) throw new Error();
+      const value = raw.d !== undefined ? new Date(raw.d) : Number(raw.n);
+      if (value instanceof Date ? isNaN(value.getTime()) : !Number.isFinite(value)) throw new Error();
+      return { value, id: new Types.ObjectId(raw.id) };
+    } catch {
+      throw new Error("Invalid cursor");
+    }
+  }
+
+  // distinct tags are expensive on a large collection; cache them briefly and only
+  // send them with the first page
+  private async allTags(): Promise<string[]> {
+    try {
+      const cached = await redisClient.get(TAGS_CACHE_KEY);
+      if (cached) return JSON.parse(cached);
+    } catch (e) {
+      console.warn("Tag cache read failed", e);
+    }
+    const tags = await this.set.distinctTags();
+    try {
+      await redisClient.set(TAGS_CACHE_KEY, JSON.stringify(tags), { EX: TAGS_CACHE_TTL });
+    } catch (e) {
+      console.warn("Tag cache write failed", e);
+    }
+    return tags;
+  }
+
+  // anonymous callers only see public sets; signed-in viewers also see their own and shared ones
+  async listSets(query: IListSetsQuery, viewerId?: string) {
+    // ?visibility= only narrows what the viewer may see; it never replaces the access filter
+    const match: Record<string, any> = { deletedAt: null, $and: [SetRepository.visibleTo(viewerId)] };
+    if (query.visibility) match.$and.push({ visibility: query.visibility === "public" ? { $in: ["public", null] } : query.visibility });
+    if (query.tag?.length) match.tags = { $all: query.tag };
+    if (query.createdBy) match.createdBy = new Types.ObjectId(query.createdBy);
+    if (query.collaborator) match.collaborators = new Types.ObjectId(query.collaborator);
+    if (query.songId) match["songs.id"] = normalize(query.songId);
+
+    const sortField = SetService.cursorSortField[query.sort];
+    const after = query.cursor ? SetService.decodeCursor(query.cursor) : undefined;
+
+    const rows = await this.set.list({ match, sortField, limit: query.limit, after });
+    const hasMore = rows.length > query.limit;
+    const sets = hasMore ? rows.slice(0, query.limit) : rows;
+
+    const last = sets[sets.length - 1];
+    const nextCursor = hasMore && last ? SetService.encodeCursor(last[sortField], last._id) : null;
+
+    return {
+      sets,
+      nextCursor,
+      ...(query.cursor ? {} : { tags: await this.allTags() }),
+    };
+  }
+
+  // ---- History ----
+
+  async listHistory(setId: string, userId: string, page: number, limit: number) {
+    await this.assertRole(setId, userId, ["owner", "editor", "suggester", "viewer"]);
+    const { versions, total } = await this.versions.list(setId, (page - 1) * limit, limit);
+    return { versions, page, limit, total, hasMore: page * limit < total };
+  }
+
+  async getVersion(setId: string, userId: string, version: number) {
+    await this.assertRole(setId, userId, ["owner", "editor", "suggester", "viewer"]);
+    const found = await this.versions.find(setId, version);
+    if (!found) throw new Error("Version not found");
+    return found;
+  }
+
+  // songs added/removed/moved and changed metadata fields between two snapshots
+  private static diffSnapshots(from: SetSnapshot, to: SetSnapshot) {
+    const fromIds = (from.songs ?? []).map(s => s.id);
+    const toIds = (to.songs ?? []).map(s => s.id);
+    const fromSet = new Set(fromIds);
+    const toSet = new Set(toIds);
+
+    const added = (to.songs ?? []).filter(s => !fromSet.has(s.id));
+    const removed = (from.songs ?? []).filter(s => !toSet.has(s.id));
+
+    // compare positions among the songs both versions share, so adds/removes don't count as moves
+    const keptFrom = fromIds.filter(id => toSet.has(id));
+    const keptTo = toIds.filter(id => fromSet.has(id));
+    const moved = keptTo
+      .map((id, toIndex) => ({ id, fromIndex: keptFrom.indexOf(id), toIndex }))
+      .filter(m => m.fromIndex !== m.toIndex);
+
+    const metadata: Record<string, { from: any; to: any }> = {};
+    for (const key of ["name", "description", "tags", "images"] as const) {
+      const a = from[key] ?? null;
+      const b = to[key] ?? null;
+      if (JSON.stringify(a) !== JSON.stringify(b)) metadata[key] = { from: a, to: b };
+    }
+
+    return { metadata, songs: { added, removed, moved } };
+  }
+
+  // `to` defaults to the latest version
+  async diffVersions(setId: string, userId: string, fromVersion: number, toVersion?: number) {
+    await this.assertRole(setId, userId, ["owner", "editor", "suggester", "viewer"]);
+
+    const set = await this.set.findById(setId);
+    if (!set) throw new Error("Set not found");
+    const target = toVersion ?? set.version;
+
+    const [from, to] = await Promise.all([
+      this.versions.find(setId, fromVersion),
+      this.versions.find(setId, target),
+    ]);
+    if (!from || !to) throw new Error("Version not found");
+
+    return { from: fromVersion, to: target, ...SetService.diffSnapshots(from.snapshot, to.snapshot) };
+  }
+
+  // Restore a snapshot's content. This is itself a new version, so a revert can be reverted.
+  async revert(setId: string, userId: string, version: number, expectedVersion?: number) {
+    await this.assertCanEdit(setId, userId);
+
+    const set = await this.set.findById(setId);
+    if (!set) throw new Error("Set not found");
+
+    const found = await this.versions.find(setId, version);
+    if (!found) throw new Error("Version not found");
+
+    const { snapshot } = found;
+    const updated = await this.writeContent(set, {
+      name: snapshot.name,
+      description: snapshot.description ?? null,
+      tags: snapshot.tags ?? [],
+      images: snapshot.images ?? [],
+      songs: snapshot.songs ?? [],
+    }, expectedVersion);
+
+    await this.recordVersion(updated, userId, "revert", { revertedTo: version });
+    return { ...updated, revertedTo: version };
+  }
+
+  // ---- Deletion & ownership ----
+
+  // Soft delete: the set disappears from listings, search and loved feeds but lovedBy,
+  // collaborators and songs are kept so restore is lossless. Loves are frozen while the
+  // set is in the trash (love/unlove answer "Set not found"), and restore brings them
+  // back with their original counts and lovedAt order.
+  async deleteSet(setId: string, userId: string) {
+    const set = await this.set.findAnyById(setId);
+    if (!set || set.deletedAt) throw new Error("Set not found");
+    if (set.createdBy.toString() !== userId) throw new Error("Forbidden");
+
+    const deleted = await this.set.softDelete(setId, userId);
+    if (!deleted) throw new Error("Set not found");
+
+    try {
+      await this.user.pullSet(userId, setId);
+    } catch (err) {
+      console.warn("Failed to pull set id from user.sets:", err);
+    }
+    await this.playlists.releaseForSet(setId);
+    await this.emit(setId, { type: "set.delete", userId });
+
+    return { ok: true, setId, deletedAt: deleted.deletedAt };
+  }
+
+  async restoreSet(setId: string, userId: string) {
+    const set = await this.set.findAnyById(setId);
+    if (!set || !set.deletedAt) throw new Error("Set not found");
+    if (set.createdBy.toString() !== userId) throw new Error("Forbidden");
+
+    const restored = await this.set.restore(setId, userId);
+    if (!restored) throw new Error("Set not found");
+
+    try {
+      await this.user.pushSet(userId, setId);
+    } catch (err) {
+      console.warn("Failed to push set id to user.sets:", err);
+    }
+    await this.emit(setId, { type: "set.restore", userId });
+
+    return restored;
+  }
+
+  // Permanent delete (from trash or directly). Removes the document — and with it
+  // lovedBy/lovedAt/suggestions, so the set leaves every loved feed and count for good —
+  // plus any user.sets references and temp playlist pointers. Loves live only on the set,
+  // so there is nothing else to clean up.
+  async purgeSet(setId: string, userId: string) {
+    const set = await this.set.findAnyById(setId);
+    if (!set) throw new Error("Set not found");
+    if (set.createdBy.toString() !== userId) throw new Error("Forbidden");
+
+    const ok = await this.set.purge(setId, userId);
+    if (!ok) throw new Error("Set not found");
+
+    try {
+      await this.user.pullSetFromAll(setId);
+      await this.versions.deleteForSet(setId);
+    } catch (err) {
+      console.warn("Failed to clean up references to purged set:", err);
+    }
+    await this.playlists.releaseForSet(setId);
+    await this.playlists.forgetLinksForSet(setId);
+    await this.emit(setId, { type: "set.purge", userId });
+
+    return { ok: true, setId };
+  }
+
+  // ---- Share links ----
+
+  // Owner-only. Issues a fresh token, which invalidates any previously shared link.
+  async rotateShareToken(setId: string, ownerId: string) {
+    await this.assertRole(setId, ownerId, ["owner"]);
+
+    const shareToken = randomString(24);
+    const updated = await this.set.setShareToken(setId, ownerId, shareToken);
+    if (!updated) throw new Error("Set not found");
+
+    // streams opened with the old token must stop
+    await this.emit(setId, { type: "access.change" });
+
+    const appOrigin = process.env.APP_ORIGIN || "http://localhost:3000";
+    return {
+      shareToken,
+      url: `${appOrigin}/sets/${setId}?share=${encodeURIComponent(shareToken)}`,
+      visibility: updated.visibility ?? "public",
+    };
+  }
+
+  async revokeShareToken(setId: string, ownerId: string) {
+    await this.assertRole(setId, ownerId, ["owner"]);
+
+    const updated = await this.set.setShareToken(setId, ownerId, null);
+    if (!updated) throw new Error("Set not found");
+    await this.emit(setId, { type: "access.change" });
+    return { ok: true, setId };
+  }
+
+  async listDeleted(userId: string) {
+    return this.set.findDeletedByOwner(userId);
+  }
+
+  // Owner-only: reassign createdBy to an existing collaborator; the old owner stays on as editor
+  async transferOwnership(setId: string, ownerId: string, toUserId: string) {
+    if (!Types.ObjectId.isValid(toUserId)) throw new Error("Invalid user id");
+    if (toUserId === ownerId) throw new Error("Already the owner");
+
+    const role = await this.set.getRole(setId, ownerId);
+    if (!role) throw new Error("Set not found");
+    if (role !== "owner") throw new Error("Forbidden");
+
+    const updated = await this.set.transferOwnership(setId, ownerId, toUserId);
+    if (!updated) throw new Error("New owner must be a collaborator");
+
+    try {
+      await this.user.pullSet(ownerId, setId);
+      await this.user.pushSet(toUserId, setId);
+    } catch (err) {
+      console.warn("Failed to move set id between user.sets:", err);
+    }
+    await this.emit(setId, { type: "owner.transfer", userId: ownerId, ownerId: toUserId });
+    await this.emit(setId, { type: "access.change" });
+
+    return updated;
+  }
+
+  // ---- Playback ----
+
+  // POST /sets/:setId/queue — the songs come from the stored set, in set order
+  // the set's Spotify track ids in order, for anyone allowed to see the set
+  async playableTracks(setId: string, userId: string, shareToken?: string) {
+    const set = await this.assertCanView(setId, userId, shareToken);
+
+    const trackIds = (set.songs ?? []).map(s => s.id).filter(looksLikeSpotifyId);
+    if (!trackIds.length) throw new Error("Set has no songs");
+    return { name: set.name, trackIds };
+  }
+
+  async queueSet(setId: string, userId: string, opts: { playNow?: boolean; deviceId?: string; name?: string }, shareToken?: string) {
+    const { name, trackIds } = await this.playableTracks(setId, userId, shareToken);
+
+    return this.playlists.queueTracks(userId, trackIds, {
+      setId,
+      shareToken,
+      name: opts.name || name,
+      playNow: opts.playNow,
+      deviceId: opts.deviceId,
+    });
+  }
+
+  // ---- Saved Spotify playlists ----
+
+  // Anyone who can see the set can keep a linked copy in their own Spotify library
+  async saveToSpotify(setId: string, userId: string, opts: { name?: string; public?: boolean }, shareToken?: string) {
+    const set = await this.assertCanView(setId, userId, shareToken);
+
+    return this.playlists.saveSet(userId, {
+      id: setId,
+      name: set.name,
+      description: set.description,
+      trackIds: (set.songs ?? []).map(s => s.id).filter(looksLikeSpotifyId),
+    }, opts);
+  }
+
+  // Compare the linked playlist with the set. With `apply`, an editor adopts the
+  // Spotify order as a new set version (which is then pushed to the other links).
+  async syncFromSpotify(setId: string, userId: string, opts: { apply?: boolean }, expectedVersion?: number) {
+    const set = await this.assertCanView(setId, userId);
+    const linked = await this.playlists.readLinked(userId, setId);
+
+    const current = (set.songs ?? []) as SetSong[];
+    const byId = new Map(current.map(s => [s.id, s]));
+    const snapshot = (songs: SetSong[]): SetSnapshot => ({ name: set.name, tags: [], images: [], songs });
+    const { songs: diff } = SetService.diffSnapshots(
+      snapshot(current),
+      snapshot(linked.remote.trackIds.map(id => byId.get(id) ?? ({ id } as SetSong)))
+    );
+    const inSync = !diff.added.length && !diff.removed.length && !diff.moved.length;
+
+    const result = {
+      playlistId: linked.playlistId,
+      url: linked.url,
+      changedInSpotify: linked.changedInSpotify,
+      conflictedAt: linked.conflictedAt,
+      syncedAt: linked.syncedAt,
+      inSync,
+      diff,
+      applied: false,
+      version: set.version ?? 0,
+    };
+    // once the set has (or is about to have) the Spotify order, the link is no longer conflicted
+    if (inSync || opts.apply) await this.playlists.markInSync(userId, setId, linked.remote);
+    if (!opts.apply || inSync) return result;
+
+    // the new version is pushed back to every link (this one included), which records the new snapshot
+    const applied = await this.replaceSongs(setId, userId, linked.remote.trackIds, { action: "spotify.sync" }, expectedVersion);
+
+    return { ...result, applied: true, version: applied.version, songs: applied.songs };
+  }
+
+  async unlinkSpotify(setId: string, userId: string, unfollow = false) {
+    return this.playlists.unlink(userId, setId, unfollow);
+  }
+
+  // ---- Loves ----
+
+  async love(setId: string, userId: string, shareToken?: string) {
+    await this.assertCanView(setId, userId, shareToken);
+    const count = await this.set.addLove(setId, userId);
+    if (count === null) throw new Error("Set not found");
+    await this.emit(setId, { type: "love.add", userId, count });
+    return { loved: true, count };
+  }
+
+  async unlove(setId: string, userId: string) {
+    const count = await this.set.removeLove(setId, userId);
+    if (count === null) throw new Error("Set not found");
+    await this.emit(setId, { type: "love.remove", userId, count });
+    return { loved: false, count };
+  }
+
+  async listLoved(userId: string, page: number, limit: number) {
+    const { sets, total } = await this.set.findLovedBy(userId, (page - 1) * limit, limit);
+    return { sets, page, limit, total, hasMore: page * limit < total };
+  }
+
+  // ---- Suggestions ----
+
+  // apply a suggestion's diff to the current ordered ids. proposedQueue (full order) wins;
+  // otherwise removes -> adds (appended) -> reorder moves, in that order.
+  private static applySuggestion(currentIds: string[], s: SetSuggestion): string[] {
+    if (Array.isArray(s.proposedQueue) && s.proposedQueue.length) {
+      return s.proposedQueue.map(normalize);
+    }
+
+    const removes = new Set((s.removes ?? []).map(normalize));
+    const ids = currentIds.filter(id => !removes.has(id));
+    for (const add of (s.adds ?? []).map(normalize)) {
+      if (!ids.includes(add)) ids.push(add);
+    }
+    for (const move of s.reorder ?? []) {
+      const from = ids.indexOf(normalize(move.trackId));
+      if (from === -1) continue;
+      const [id] = ids.splice(from, 1);
+      ids.splice(Math.min(move.toIndex, ids.length), 0, id);
+    }
+    return ids;
+  }
+
+  // Any authenticated user who can see the set can propose changes to it
+  async createSuggestion(setId: string, userId: string, input: ICreateSuggestionInput, shareToken?: string) {
+    await this.assertCanView(setId, userId, shareToken);
+
+    const clean = (ids?: string[]) => ids ? Array.from(new Set(ids.map(normalize))).filter(isTrackId) : undefined;
+
+    const suggestion = await this.set.addSuggestion(setId, {
+      author: new Types.ObjectId(userId),
+      proposedQueue: clean(input.proposedQueue),
+      adds: clean(input.adds),
+      removes: clean(input.removes),
+      reorder: (input.reorder ?? []).map(r => ({ trackId: normalize(r.trackId), toIndex: r.toIndex })),
+    });
+    if (!suggestion) throw new Error("Set not found");
+    await this.emit(setId, { type: "suggestion.create", userId, suggestion });
+
+    return suggestion;
+  }
+
+  // suggesters can follow the review queue; only editors accept/reject
+  async listSuggestions(setId: string, userId: string, status?: SetSuggestion["status"]) {
+    await this.assertRole(setId, userId, ["owner", "editor", "suggester"]);
+
+    const set = await this.set.findById(setId);
+    if (!set) throw new Error("Set not found");
+
+    return (set.suggestions ?? [])
+      .filter(s => !status || s.status === status)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async acceptSuggestion(setId: string, suggestionId: string, userId: string, expectedVersion?: number) {
+    await this.assertCanEdit(setId, userId);
+
+    const set = await this.set.findById(setId);
+    if (!set) throw new Error("Set not found");
+
+    const suggestion = (set.suggestions ?? []).find(s => s._id.toString() === suggestionId);
+    if (!suggestion) throw new Error("Suggestion not found");
+    if (suggestion.status !== "open") throw new Error("Suggestion already resolved");
+
+    // the new song list is built from this read, so the write must land on this version
+    const readVersion = SetService.guardVersion(set, expectedVersion);
+    if (readVersion === undefined) return this.conflict(setId);
+
+    // claim the suggestion first so two reviewers can't apply it twice
+    const claimed = await this.set.resolveSuggestion(setId, suggestionId, "accepted", userId);
+    if (!claimed) throw new Error("Suggestion already resolved");
+
+    const finalOrder = SetService.applySuggestion((set.songs ?? []).map(s => s.id), suggestion);
+
+    let result;
+    try {
+      result = await this.replaceSongs(setId, userId, finalOrder, { action: "suggestion.accept", suggestionId }, readVersion);
+    } catch (err) {
+      await this.set.reopenSuggestion(setId, suggestionId);
+      throw err;
+    }
+
+    await this.set.setLastCollaboration(setId, suggestion.author.toString(), suggestionId);
+
+    return { suggestion: { ...suggestion, status: "accepted" as const }, ...result };
+  }
+
+  async rejectSuggestion(setId: string, suggestionId: string, userId: string) {
+    await this.assertCanEdit(setId, userId);
+
+    const set = await this.set.findById(setId);
+    if (!set) throw new Error("Set not found");
+
+    const suggestion = (set.suggestions ?? []).find(s => s._id.toString() === suggestionId);
+    if (!suggestion) throw new Error("Suggestion not found");
+
+    const updated = await this.set.resolveSuggestion(setId, suggestionId, "rejected", userId);
+    if (!updated) throw new Error("Suggestion already resolved");
+    await this.emit(setId, { type: "suggestion.reject", userId, suggestionId });
+
+    return updated.suggestions.find(s => s._id.toString() === suggestionId);
+  }
+
+
+  // ---- Live updates ----
+
+  // SSE feed for GET /sets/:setId/events: `ready` with the current version, then set events
+  // as they happen. When visibility, the share link, membership or ownership changes the
+  // viewer is re-checked and gets `access.revoked` once they can no longer see the set.
+  // We subscribe before reading the version `ready` reports, so no change can fall in
+  // between; events that arrive meanwhile are held until after `ready`, minus edits the
+  // reported version already includes.
+  async events(setId: string, viewerId: string | undefined, shareToken: string | undefined, send: (event: string, data: unknown) => void) {
+    if (!Types.ObjectId.isValid(setId)) throw new Error("Set not found");
+    await this.assertCanView(setId, viewerId, shareToken);
+
+    type Published = SetEvent & { setId: string; at: number };
+    const deliver = (event: Published) => {
+      if (event.type !== "access.change") return send(event.type, event);
+      this.assertCanView(setId, viewerId, shareToken).catch(() => send("access.revoked", { setId, at: event.at }));
+    };
+    let held: Published[] | null = [];
+    const unsubscribe = await subscribe(SetService.channel(setId), (event: Published) => {
+      if (held) held.push(event);
+      else deliver(event);
+    });
+
+    let version: number;
+    try {
+      version = (await this.assertCanView(setId, viewerId, shareToken)).version ?? 0;
+    } catch (err) {
+      await unsubscribe();
+      throw err;
+    }
+
+    send("ready", { setId, version });
+    const pending = held;
+    held = null;
+    for (const event of pending) {
+      if ("version" in event && event.version <= version) continue;
+      deliver(event);
+    }
+    return unsubscribe;
+  }
+
+}
@@ -8,24 +8,37 @@ import SpotifyTokenRepository from "../repos/SpotifyToken.repository";
 import { SpotifyTokens } from "../interfaces/spotifyTokens.interface";
 import { ISpotifySearchInput } from "../interfaces/search.interface";
 
-
+// refresh when less than this is left on the access token
+const REFRESH_MARGIN_MS = 60_000;
+// how long one refresh may hold the per-user lock, and how long others wait for it
+const REFRESH_LOCK_MS = 10_000;
+const REFRESH_WAIT_MS = 15_000;
+const REFRESH_POLL_MS = 150;
+
+// What we ask Spotify for. Adding a scope here means existing connections lack it until
+// the user re-authorizes; GET /account/spotify/status reports that as needsReconsent.
+export const SPOTIFY_SCOPES = [
+  "user-read-playback-state",
+  "user-modify-playback-state",
+  "user-read-currently-playing",
+  // playlist scopes needed to create/update/delete (unfollow) temporary playlists
+  "playlist-modify-private",
+  "playlist-modify-public",
+];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
 @injectable()
 export default class SpotifyService {
 
   constructor(private repo: SpotifyTokenRepository) { }
 
+  // in-flight refreshes in this process, so concurrent requests share one
+  private refreshing = new Map<string, Promise<string>>();
+
   private clientId = process.env.SPOTIFY_CLIENT_ID!;
   private clientSecret = process.env.SPOTIFY_CLIENT_SECRET!;
   private redirectUri = process.env.SPOTIFY_REDIRECT_URI!;
-  private SCOPES = [
-    "user-read-playback-state",
-    "user-modify-playback-state",
-    "user-read-currently-playing",
-    // playlist scopes needed to create/update/delete (unfollow) temporary playlists
-    "playlist-modify-private",
-    "playlist-modify-public",
-  ].join(" ");
 
   // You can use cookie/session to persist state per user
   generateState(): string {
@@ -38,7 +51,7 @@ export default class SpotifyService {
       response_type: "code",
       redirect_uri: this.redirectUri,
       state,
-      scope: this.SCOPES,
+      scope: SPOTIFY_SCOPES.join(" "),
     });
 
     if (opts?.showDialog) {
@@ -79,17 +92,73 @@ export default class SpotifyService {
     return tokens;
   }
 
+  private static isFresh(tokens: SpotifyTokens) {
+    return Date.now() < tokens.expires_at - REFRESH_MARGIN_MS;
+  }
+
+  // "Spotify reconnect required" once Spotify has revoked the grant, else "No tokens stored for user"
+  private async missingTokens(userId: string): Promise<never> {
+    if (await this.repo.needsReconnect(userId)) throw new Error("Spotify reconnect required");
+    throw new Error("No tokens stored for user");
+  }
+
   async ensureAccessToken(userId: string): Promise<string> {
     const tokens = await this.repo.getTokens(userId);
-    if (!tokens) throw new Error("No tokens stored for user");
+    if (!tokens) return this.missingTokens(userId);
+    if (SpotifyService.isFresh(tokens)) return tokens.access_token;
+
+    let pending = this.refreshing.get(userId);
+    if (!pending) {
+      pending = this.refreshWithLock(userId).finally(() => this.refreshing.delete(userId));
+      this.refreshing.set(userId, pending);
+    }
+    return pending;
+  }
+
+  // Spotify may rotate the refresh token, so two refreshes racing can lock a user out.
+  // One request (across all instances) refreshes under a Redis lock; the rest wait for
+  // the new token to show up in storage.
+  private async refreshWithLock(userId: string): Promise<string> {
+    const deadline = Date.now() + REFRESH_WAIT_MS;
+    for (; ;) {
+      const lock = await this.repo.acquireRefreshLock(userId, REFRESH_LOCK_MS);
+      if (lock) {
+        try {
+          // someone may have refreshed between our read and taking the lock
+          const tokens = await this.repo.getTokens(userId);
+          if (!tokens) return this.missingTokens(userId);
+          if (SpotifyService.isFresh(tokens)) return tokens.access_token;
+
+          const refreshed = await this.refreshStored(userId, tokens.refresh_token);
+          return refreshed.access_token!;
+        } finally {
+          await this.repo.releaseRefreshLock(userId, lock).catch(() => undefined);
+        }
+      }
 
-    // Refresh if < 60s left
-    if (Date.now() > (tokens.expires_at - 60_000)) {
-      const refreshed = await this.refreshAccessToken(tokens.refresh_token);
-      await this.repo.updateTokens(userId, refreshed);
-      return refreshed.access_token!;
+      await sleep(REFRESH_POLL_MS);
+      const tokens = await this.repo.getTokens(userId);
+      if (!tokens) return this.missingTokens(userId);
+      if (SpotifyService.isFresh(tokens)) return tokens.access_token;
+      if (Date.now() > deadline) throw new Error("Spotify token refresh timed out");
     }
-    return tokens.access_token;
+  }
+
+  // invalid_grant means the refresh token was revoked (user removed the app, password
+  // change, ...): the stored tokens are useless, so drop them and ask for a reconnect
+  private async refreshStored(userId: string, refreshToken: string) {
+    let refreshed: Partial<SpotifyTokens>;
+    try {
+      refreshed = await this.refreshAccessToken(refreshToken);
+    } catch (err: any) {
+      if (axios.isAxiosError(err) && (err.response?.data as any)?.error === "invalid_grant") {
+        await this.repo.markReconnectRequired(userId);
+        throw new Error("Spotify reconnect required");
+      }
+      throw err;
+    }
+    await this.repo.updateTokens(userId, refreshed);
+    return refreshed;
   }
 
   async refreshAccessToken(refreshToken: string) {
@@ -122,6 +191,45 @@ export default class SpotifyService {
     } as Partial<SpotifyTokens>;
   }
 
+  // Connection state without calling Spotify: granted vs required scopes and token expiry.
+  // The access token refreshes on demand, so an expired one alone needs no action.
+  async connectionStatus(userId: string) {
+    const tokens = await this.repo.getTokens(userId);
+    if (!tokens) {
+      const reconnectRequired = await this.repo.needsReconnect(userId);
+      return {
+        connected: false,
+        reconnectRequired,
+        needsReconsent: false,
+        scopes: [] as string[],
+        requiredScopes: SPOTIFY_SCOPES,
+        missingScopes: SPOTIFY_SCOPES,
+        expiresAt: null,
+        expired: null,
+      };
+    }
+
+    const scopes = (tokens.scope ?? "").split(/\s+/).filter(Boolean);
+    const missingScopes = SPOTIFY_SCOPES.filter(s => !scopes.includes(s));
+    return {
+      connected: true,
+      reconnectRequired: false,
+      needsReconsent: missingScopes.length > 0,
+      scopes,
+      requiredScopes: SPOTIFY_SCOPES,
+      missingScopes,
+      expiresAt: new Date(tokens.expires_at).toISOString(),
+      expired: Date.now() >= tokens.expires_at,
+    };
+  }
+
+  // Unlink: forget the user's Spotify tokens (Spotify has no revoke endpoint; the user can
+  // remove the app from their Spotify account settings)
+  async disconnect(userId: string) {
+    const removed = await this.repo.deleteTokens(userId);
+    return removed > 0;
+  }
+
   async getCurrentUserProfile(accessToken: string) {
     const { data } = await axios.get(`${process.env.SPOTIFY_API}/me`, {
       headers: { Authorization: `Bearer ${accessToken}` },
@@ -148,67 +256,4 @@ export default class SpotifyService {
     return data;
   }
 
-  // Play either a list of track URIs or a playlist context for a user.
-  // Accepts:
-  // - userId, and either an array of track URIs (spotify:track:...) or a single playlist URI (spotify:playlist:... or spotify:playlist_v2:...)
-  async playUrisForUser(userId: string, urisOrContext: string[] | string, deviceId?: string) {
-    const accessToken = await this.ensureAccessToken(userId);
-
-    // pick a device if none provided
-    let targetDeviceId = deviceId;
-    if (!targetDeviceId) {
-      const devicesResp = await fetch("https://api.spotify.com/v1/me/player/devices", {
-        headers: { Authorization: `Bearer ${accessToken}`, Accept: "application/json" },
-      });
-      if (!devicesResp.ok) {
-        const text = await devicesResp.text().catch(() => "");
-        throw new Error(`Failed to query devices: ${devicesResp.status} ${text}`);
-      }
-      const devicesBody = await devicesResp.json().catch(() => ({ devices: [] }));
-      const available = (devicesBody.devices || []) as any[];
-      if (!available.length) throw new Error("No active Spotify devices");
-      targetDeviceId = available[0].id;
-    }
-
-    const playUrl = `https://api.spotify.com/v1/me/player/play${targetDeviceId ? `?device_id=${encodeURIComponent(targetDeviceId)}` : ""}`;
-
-    // Decide whether to use context_uri (playlist/album/artist) or uris (track URIs)
-    let body: any;
-    const toStr = (s: string) => s ?? "";
-    const looksLikePlaylist = (s: string) =>
-      toStr(s).startsWith("spotify:playlist:") || toStr(s).startsWith("spotify:playlist_v2:") || toStr(s).includes(":playlist_v2:");
-
-    if (typeof urisOrContext === "string") {
-      if (looksLikePlaylist(urisOrContext)) {
-        body = { context_uri: urisOrContext.replace("spotify:playlist_v2:", "spotify:playlist:") };
-      } else {
-        body = { uris: [urisOrContext] };
-      }
-    } else if (Array.isArray(urisOrContext) && urisOrContext.length === 1 && looksLikePlaylist(urisOrContext[0])) {
-      // single playlist URI passed in array
-      body = { context_uri: urisOrContext[0].replace("spotify:playlist_v2:", "spotify:playlist:") };
-    } else {
-      body = { uris: urisOrContext };
-    }
-
-    const playResp = await fetch(playUrl, {
-      method: "PUT",
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(body),
-    });
-
-    if (![204, 202, 200].includes(playResp.status)) {
-      const details = await playResp.text().catch(() => "");
-      const err: any = new Error(`Spotify play failed: ${playResp.status} ${details}`);
-      err.status = playResp.status;
-      err.details = details;
-      throw err;
-    }
-
-    return { ok: true, deviceId: targetDeviceId };
-  }
-
 }
\ No newline at end of file
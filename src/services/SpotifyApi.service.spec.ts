@@ -0,0 +1,108 @@
+import SpotifyApiService from "./SpotifyApi.service";
+
+const API_BASE = "https://spotify.test/v1";
+
+const reply = (status: number, body?: unknown, headers: Record<string, string> = {}) =>
+  new Response(body === undefined ? null : JSON.stringify(body), { status, headers });
+
+// Fake Spotify API: answers requests in order from `responses` and records what was sent
+function fakeSpotify(responses: (Response | Error)[]) {
+  const calls: { method: string; url: string }[] = [];
+  const fetchImpl = jest.fn(async (input: string | URL | Request, init?: RequestInit) => {
+    calls.push({ method: init?.method ?? "GET", url: String(input) });
+    const next = responses.shift();
+    if (!next) throw new Error(`unexpected request ${init?.method} ${input}`);
+    if (next instanceof Error) throw next;
+    return next;
+  });
+  return { fetchImpl, calls };
+}
+
+function apiFor(responses: (Response | Error)[]) {
+  const fake = fakeSpotify(responses);
+  const api = new SpotifyApiService();
+  api.apiBase = API_BASE;
+  api.fetchImpl = fake.fetchImpl as typeof fetch;
+  api.sleep = jest.fn(async () => { });
+  return { api, ...fake };
+}
+
+describe("SpotifyApiService.request", () => {
+
+  it("waits for Retry-After on 429 and retries", async () => {
+    const { api, calls } = apiFor([
+      reply(429, { error: { status: 429 } }, { "Retry-After": "2" }),
+      reply(200, { id: "me" }),
+    ]);
+
+    await expect(api.request("token", "GET", "/me")).resolves.toEqual({ id: "me" });
+    expect(api.sleep).toHaveBeenCalledTimes(1);
+    expect(api.sleep).toHaveBeenCalledWith(2000);
+    expect(calls).toEqual([
+      { method: "GET", url: `${API_BASE}/me` },
+      { method: "GET", url: `${API_BASE}/me` },
+    ]);
+  });
+
+  it("retries a 429 on POST too, since Spotify did not process it", async () => {
+    const { api, calls } = apiFor([
+      reply(429, undefined, { "Retry-After": "1" }),
+      reply(201, { snapshot_id: "s1" }),
+    ]);
+
+    await expect(api.request("token", "POST", "/playlists/p1/tracks", { uris: [] })).resolves.toEqual({ snapshot_id: "s1" });
+    expect(api.sleep).toHaveBeenCalledWith(1000);
+    expect(calls).toHaveLength(2);
+  });
+
+  it("gives up when Retry-After is longer than it is willing to wait", async () => {
+    const { api, calls } = apiFor([reply(429, undefined, { "Retry-After": "120" })]);
+
+    await expect(api.request("token", "GET", "/me")).rejects.toMatchObject({ status: 429 });
+    expect(api.sleep).not.toHaveBeenCalled();
+    expect(calls).toHaveLength(1);
+  });
+
+  it("retries 5xx on GET with exponential backoff", async () => {
+    const { api, calls } = apiFor([reply(503), reply(502), reply(200, { items: [] })]);
+
+    await expect(api.request("token", "GET", "/me/player/devices")).resolves.toEqual({ items: [] });
+    expect((api.sleep as jest.Mock).mock.calls).toEqual([[500], [1000]]);
+    expect(calls).toHaveLength(3);
+  });
+
+  it("stops retrying 5xx after the last attempt", async () => {
+    const { api, calls } = apiFor([reply(500), reply(500), reply(500), reply(503, { error: "down" })]);
+
+    await expect(api.request("token", "PUT", "/me/player/pause")).rejects.toMatchObject({
+      status: 503,
+      details: JSON.stringify({ error: "down" }),
+    });
+    expect(calls).toHaveLength(4);
+  });
+
+  it("does not retry a POST that failed with 5xx", async () => {
+    const { api, calls } = apiFor([reply(500), reply(201, { snapshot_id: "never" })]);
+
+    await expect(api.request("token", "POST", "/playlists/p1/tracks", { uris: ["spotify:track:a"] })).rejects.toMatchObject({ status: 500 });
+    expect(api.sleep).not.toHaveBeenCalled();
+    expect(calls).toHaveLength(1);
+  });
+
+  it("does not retry a POST after a network error", async () => {
+    const { api, calls } = apiFor([new TypeError("fetch failed"), reply(204)]);
+
+    await expect(api.request("token", "POST", "/me/player/next")).rejects.toThrow("fetch failed");
+    expect(calls).toHaveLength(1);
+  });
+
+  it("returns null for 204 and does not retry 4xx", async () => {
+    const ok = apiFor([reply(204)]);
+    await expect(ok.api.request("token", "PUT", "/me/player/play")).resolves.toBeNull();
+
+    const notFound = apiFor([reply(404, { error: { status: 404 } })]);
+    await expect(notFound.api.request("token", "GET", "/playlists/gone")).rejects.toMatchObject({ status: 404 });
+    expect(notFound.calls).toHaveLength(1);
+  });
+
+});
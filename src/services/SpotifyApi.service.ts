@@ -0,0 +1,82 @@
+import "reflect-metadata";
+import { injectable } from "inversify";
+
+const MAX_ATTEMPTS = 4;
+const MAX_RETRY_AFTER_MS = 30_000;
+
+// Thin client for the Spotify Web API shared by the playlist and player services.
+// Callers pass a user access token (SpotifyService.ensureAccessToken).
+@injectable()
+export default class SpotifyApiService {
+
+  // Overridable so tests can point the services at a fake Spotify API
+  apiBase = (process.env.SPOTIFY_API || "https://api.spotify.com/v1").replace(/\/$/, "");
+  fetchImpl: typeof fetch = (input, init) => fetch(input, init);
+  sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+  // JSON request against the Web API. 429s wait for Retry-After. 5xx and network errors
+  // back off exponentially, except for POSTs (add tracks, skip, queue), which aren't safe
+  // to repeat. Other failures throw with `status` and `details` set.
+  async request<T = any>(accessToken: string, method: string, path: string, body?: unknown): Promise<T | null> {
+    const retryable = method !== "POST";
+    let lastError: any;
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      let resp: Response;
+      try {
+        resp = await this.fetchImpl(`${this.apiBase}${path}`, {
+          method,
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+          },
+          body: body !== undefined ? JSON.stringify(body) : undefined,
+        });
+      } catch (e) {
+        if (!retryable) throw e;
+        lastError = e;
+        if (attempt < MAX_ATTEMPTS) await this.sleep(SpotifyApiService.backoffMs(attempt));
+        continue;
+      }
+
+      if (resp.ok) {
+        if (resp.status === 204) return null;
+        const text = await resp.text().catch(() => "");
+        return text ? JSON.parse(text) as T : null;
+      }
+
+      const details = await resp.text().catch(() => "");
+      const err: any = new Error(`Spotify ${method} ${path} failed: ${resp.status}`);
+      err.status = resp.status;
+      err.details = details;
+      lastError = err;
+
+      if (resp.status === 429) {
+        const retryAfter = Number(resp.headers.get("retry-after"));
+        const wait = Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : SpotifyApiService.backoffMs(attempt);
+        if (attempt < MAX_ATTEMPTS && wait <= MAX_RETRY_AFTER_MS) {
+          await this.sleep(wait);
+          continue;
+        }
+        throw err;
+      }
+      if (resp.status >= 500 && retryable && attempt < MAX_ATTEMPTS) {
+        await this.sleep(SpotifyApiService.backoffMs(attempt));
+        continue;
+      }
+      throw err;
+    }
+
+    throw lastError;
+  }
+
+  private static backoffMs(attempt: number) {
+    return 500 * 2 ** (attempt - 1);
+  }
+
+  // `next` links in paged responses are absolute URLs on the same API
+  pathOf(url: string) {
+    return url.startsWith(this.apiBase) ? url.slice(this.apiBase.length) : url.replace(/^https?:\/\/[^/]+\/v1/, "");
+  }
+
+}
@@ -0,0 +1,72 @@
+// the repositories pull in the Redis client, which connects on import
+jest.mock("../infra/redis", () => ({ redisClient: {} }));
+
+import { mock } from "jest-mock-extended";
+import { Types } from "mongoose";
+import SpotifyPlayerService from "./SpotifyPlayer.service";
+import SpotifyApiService from "./SpotifyApi.service";
+import SpotifyService from "./Spotify.service";
+import TempPlaylistRepository from "../repos/TempPlaylist.repository";
+import SetRepository from "../repos/Set.repository";
+
+const TRACK_ID = "4uLU6hMCjMI75M1A2tKUQC";
+
+// Spotify answering GET /me/player with the user's temp playlist playing
+function setup() {
+  const spotify = mock<SpotifyService>();
+  const tempPlaylists = mock<TempPlaylistRepository>();
+  const sets = mock<SetRepository>();
+  const setId = new Types.ObjectId().toString();
+
+  const api = new SpotifyApiService();
+  api.apiBase = "https://spotify.test/v1";
+  api.fetchImpl = jest.fn(async () => new Response(JSON.stringify({
+    is_playing: true,
+    progress_ms: 1000,
+    currently_playing_type: "track",
+    context: { type: "playlist", uri: "spotify:playlist:temp1" },
+    item: { id: TRACK_ID, name: "Song", uri: `spotify:track:${TRACK_ID}`, duration_ms: 200000 },
+  }), { status: 200 })) as typeof fetch;
+
+  spotify.ensureAccessToken.mockResolvedValue("token");
+  tempPlaylists.get.mockResolvedValue({ playlistId: "temp1", setId, shareToken: "link-token", trackIds: [TRACK_ID] });
+  sets.findById.mockResolvedValue({ _id: new Types.ObjectId(setId), name: "Private set", songs: [{ id: TRACK_ID }] } as any);
+
+  const player = new SpotifyPlayerService(spotify, api, tempPlaylists, sets);
+  return { player, tempPlaylists, sets, setId };
+}
+
+describe("SpotifyPlayerService.nowPlaying", () => {
+
+  it("names the queued set while the user can still see it", async () => {
+    const { player, setId } = setup();
+    const canView = jest.fn(async () => true);
+
+    const now = await player.nowPlaying("u1", canView);
+
+    expect(canView).toHaveBeenCalledWith(setId, "link-token");
+    expect(now.fromTempPlaylist).toBe(true);
+    expect(now.set).toEqual({ setId, name: "Private set", index: 0, queueIndex: 0 });
+  });
+
+  it("hides the set and forgets it once access is gone, keeping the playlist for cleanup", async () => {
+    const { player, tempPlaylists, sets } = setup();
+
+    const now = await player.nowPlaying("u1", async () => false);
+
+    expect(now.set).toBeNull();
+    expect(sets.findById).not.toHaveBeenCalled();
+    expect(tempPlaylists.delete).toHaveBeenCalledWith("u1");
+    expect(tempPlaylists.save).toHaveBeenCalledWith("u1", { playlistId: "temp1" });
+  });
+
+  it("does not look the set up without an access check", async () => {
+    const { player, sets } = setup();
+
+    const now = await player.nowPlaying("u1");
+
+    expect(now.set).toBeNull();
+    expect(sets.findById).not.toHaveBeenCalled();
+  });
+
+});
@@ -0,0 +1,233 @@
+import "reflect-metadata";
+import { injectable } from "inversify";
+import SpotifyService from "./Spotify.service";
+import SpotifyApiService from "./SpotifyApi.service";
+import TempPlaylistRepository from "../repos/TempPlaylist.repository";
+import SetRepository from "../repos/Set.repository";
+
+export type SpotifyDevice = {
+  id: string | null;
+  is_active: boolean;
+  is_restricted: boolean;
+  name: string;
+  type: string;
+  volume_percent: number | null;
+};
+
+export type RepeatState = "track" | "context" | "off";
+
+// subset of GET /me/player we read
+type PlaybackState = {
+  device?: SpotifyDevice | null;
+  shuffle_state?: boolean;
+  repeat_state?: RepeatState;
+  context?: { type: string; uri: string } | null;
+  progress_ms?: number | null;
+  is_playing: boolean;
+  currently_playing_type?: string;
+  item?: {
+    id: string;
+    name: string;
+    uri: string;
+    duration_ms: number;
+    artists?: { id: string; name: string }[];
+    album?: { id: string; name: string; images?: { url: string }[] };
+  } | null;
+};
+
+export type PlayOptions = {
+  // track URIs, or a playlist/album/artist context
+  uris?: string[];
+  context?: string;
+  // start inside a context: a track index or URI
+  offset?: number | string;
+  positionMs?: number;
+  deviceId?: string;
+};
+
+// Spotify Connect playback for a user (Premium only on Spotify's side). Every call goes
+// through SpotifyApiService, so errors carry Spotify's status and body in `status`/`details`.
+@injectable()
+export default class SpotifyPlayerService {
+
+  constructor(
+    private spotify: SpotifyService,
+    private api: SpotifyApiService,
+    private tempPlaylists: TempPlaylistRepository,
+    private sets: SetRepository
+  ) { }
+
+  private static withDevice(path: string, deviceId?: string) {
+    if (!deviceId) return path;
+    return `${path}${path.includes("?") ? "&" : "?"}device_id=${encodeURIComponent(deviceId)}`;
+  }
+
+  async devices(userId: string) {
+    const accessToken = await this.spotify.ensureAccessToken(userId);
+    const body = await this.api.request<{ devices: SpotifyDevice[] }>(accessToken, "GET", "/me/player/devices");
+    return body?.devices ?? [];
+  }
+
+  // The requested device, else the active one, else the first available. Restricted
+  // devices (which reject Web API commands) are never picked automatically.
+  private async resolveDevice(accessToken: string, deviceId?: string) {
+    if (deviceId) return deviceId;
+
+    const body = await this.api.request<{ devices: SpotifyDevice[] }>(accessToken, "GET", "/me/player/devices");
+    const usable = (body?.devices ?? []).filter((d) => d.id && !d.is_restricted);
+    const picked = usable.find((d) => d.is_active) ?? usable[0];
+    if (!picked?.id) {
+      const err: any = new Error("No active Spotify devices");
+      err.status = 404;
+      throw err;
+    }
+    return picked.id;
+  }
+
+  // What's playing right now. When the context is the user's temp playlist (queued from a
+  // set) it also says which set and where in it: `queueIndex` is the position in the
+  // queued order, `index` the position in the set as it is now (null if it was removed).
+  // The set is only named when `canView` says the user may still see it; once they can't,
+  // the temp playlist stops pointing at it. Without `canView` the set isn't looked up.
+  async nowPlaying(userId: string, canView?: (setId: string, shareToken?: string) => Promise<boolean>) {
+    const accessToken = await this.spotify.ensureAccessToken(userId);
+    const state = await this.api.request<PlaybackState>(accessToken, "GET", "/me/player?additional_types=track");
+    const fetchedAt = new Date().toISOString();
+
+    // 204: nothing playing on any device
+    if (!state) {
+      return { playing: false, track: null, progressMs: null, device: null, shuffle: null, repeat: null, context: null, fromTempPlaylist: false, set: null, fetchedAt };
+    }
+
+    const item = state.currently_playing_type === "track" || !state.currently_playing_type ? state.item ?? null : null;
+    const track = item
+      ? {
+        id: item.id,
+        name: item.name,
+        uri: item.uri,
+        durationMs: item.duration_ms,
+        artists: (item.artists ?? []).map((a) => a.name).join(", "),
+        album: item.album?.name ?? null,
+        image: item.album?.images?.[0]?.url ?? null,
+      }
+      : null;
+
+    const pointer = await this.tempPlaylists.get(userId).catch(() => undefined);
+    const fromTempPlaylist = !!pointer && state.context?.uri === `spotify:playlist:${pointer.playlistId}`;
+
+    let set: { setId: string; name: string | null; index: number | null; queueIndex: number | null } | null = null;
+    if (fromTempPlaylist && pointer?.setId && canView) {
+      if (await canView(pointer.setId, pointer.shareToken)) {
+        const doc = await this.sets.findById(pointer.setId).catch(() => null);
+        const queueIndex = track && pointer.trackIds ? pointer.trackIds.indexOf(track.id) : -1;
+        const index = track && doc ? (doc.songs ?? []).findIndex((s) => s.id === track.id) : -1;
+        set = {
+          setId: pointer.setId,
+          name: doc?.name ?? null,
+          index: index >= 0 ? index : null,
+          queueIndex: queueIndex >= 0 ? queueIndex : null,
+        };
+      } else {
+        await this.forgetSet(userId, pointer.playlistId);
+      }
+    }
+
+    return {
+      playing: state.is_playing,
+      track,
+      progressMs: state.progress_ms ?? null,
+      device: state.device
+        ? { id: state.device.id, name: state.device.name, type: state.device.type, volumePercent: state.device.volume_percent }
+        : null,
+      shuffle: state.shuffle_state ?? null,
+      repeat: state.repeat_state ?? null,
+      context: state.context ? { type: state.context.type, uri: state.context.uri } : null,
+      fromTempPlaylist,
+      set,
+      // progressMs was measured at this time; clients extrapolate from it while playing
+      fetchedAt,
+    };
+  }
+
+  // keep the playlist id (so the next queue still cleans it up) but drop the set it came from
+  private async forgetSet(userId: string, playlistId: string) {
+    try {
+      await this.tempPlaylists.delete(userId);
+      await this.tempPlaylists.save(userId, { playlistId });
+    } catch (e) {
+      console.warn("Failed to clear the set from a temp playlist pointer", userId, e);
+    }
+  }
+
+  // Start playback of track URIs or a context, replacing whatever is playing
+  async play(userId: string, opts: PlayOptions) {
+    const accessToken = await this.spotify.ensureAccessToken(userId);
+    const deviceId = await this.resolveDevice(accessToken, opts.deviceId);
+
+    const body: Record<string, any> = {};
+    if (opts.context) body.context_uri = opts.context.replace("spotify:playlist_v2:", "spotify:playlist:");
+    else if (opts.uris?.length) body.uris = opts.uris;
+    if (opts.offset !== undefined) body.offset = typeof opts.offset === "number" ? { position: opts.offset } : { uri: opts.offset };
+    if (opts.positionMs !== undefined) body.position_ms = opts.positionMs;
+
+    await this.api.request(accessToken, "PUT", SpotifyPlayerService.withDevice("/me/player/play", deviceId), body);
+    return { ok: true, deviceId };
+  }
+
+  // Continue the current context (no body = resume)
+  async resume(userId: string, deviceId?: string) {
+    const accessToken = await this.spotify.ensureAccessToken(userId);
+    const target = await this.resolveDevice(accessToken, deviceId);
+    await this.api.request(accessToken, "PUT", SpotifyPlayerService.withDevice("/me/player/play", target));
+    return { ok: true, deviceId: target };
+  }
+
+  async transfer(userId: string, deviceId: string, play = false) {
+    const accessToken = await this.spotify.ensureAccessToken(userId);
+    await this.api.request(accessToken, "PUT", "/me/player", { device_ids: [deviceId], play });
+    return { ok: true, deviceId };
+  }
+
+  // The commands below act on the active device unless one is given; Spotify answers
+  // 404 when nothing is active.
+  private async command(userId: string, method: "PUT" | "POST", path: string, deviceId?: string) {
+    const accessToken = await this.spotify.ensureAccessToken(userId);
+    await this.api.request(accessToken, method, SpotifyPlayerService.withDevice(path, deviceId));
+    return { ok: true, deviceId: deviceId ?? null };
+  }
+
+  async pause(userId: string, deviceId?: string) {
+    return this.command(userId, "PUT", "/me/player/pause", deviceId);
+  }
+
+  async next(userId: string, deviceId?: string) {
+    return this.command(userId, "POST", "/me/player/next", deviceId);
+  }
+
+  async previous(userId: string, deviceId?: string) {
+    return this.command(userId, "POST", "/me/player/previous", deviceId);
+  }
+
+  async seek(userId: string, positionMs: number, deviceId?: string) {
+    return this.command(userId, "PUT", `/me/player/seek?position_ms=${Math.max(0, Math.floor(positionMs))}`, deviceId);
+  }
+
+  async volume(userId: string, percent: number, deviceId?: string) {
+    return this.command(userId, "PUT", `/me/player/volume?volume_percent=${Math.round(percent)}`, deviceId);
+  }
+
+  async repeat(userId: string, state: RepeatState, deviceId?: string) {
+    return this.command(userId, "PUT", `/me/player/repeat?state=${state}`, deviceId);
+  }
+
+  async shuffle(userId: string, state: boolean, deviceId?: string) {
+    return this.command(userId, "PUT", `/me/player/shuffle?state=${state}`, deviceId);
+  }
+
+  // Add one track to the end of the user's queue
+  async queue(userId: string, trackId: string, deviceId?: string) {
+    const uri = trackId.startsWith("spotify:track:") ? trackId : `spotify:track:${trackId}`;
+    return this.command(userId, "POST", `/me/player/queue?uri=${encodeURIComponent(uri)}`, deviceId);
+  }
+
+}
@@ -0,0 +1,188 @@
+// the repositories pull in the Redis client, which connects on import
+jest.mock("../infra/redis", () => ({ redisClient: {} }));
+
+import { mock } from "jest-mock-extended";
+import { Types } from "mongoose";
+import SpotifyPlaylistService from "./SpotifyPlaylist.service";
+import SpotifyApiService from "./SpotifyApi.service";
+import SpotifyService from "./Spotify.service";
+import SpotifyPlayerService from "./SpotifyPlayer.service";
+import TempPlaylistRepository from "../repos/TempPlaylist.repository";
+import SpotifyPlaylistLinkRepository from "../repos/SpotifyPlaylistLink.repository";
+
+const API_BASE = "https://spotify.test/v1";
+
+const flush = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => { resolve = r; });
+  return { promise, resolve };
+}
+
+// Fake Spotify API for playlist writes: every PUT/POST to /playlists/<id>/tracks is recorded
+// and answered with a new snapshot, which GET /playlists/<id>?fields=snapshot_id then reports.
+// `hold(playlistId)` keeps the next write to that playlist pending until released.
+function fakeSpotify() {
+  const writes: { playlistId: string; uris: string[] }[] = [];
+  const snapshots = new Map<string, string>();
+  const holds = new Map<string, Promise<void>>();
+
+  const fetchImpl = jest.fn(async (input: string | URL | Request, init?: RequestInit) => {
+    const head = /\/playlists\/([^/?]+)\?fields=snapshot_id$/.exec(String(input));
+    if (head && (init?.method ?? "GET") === "GET") {
+      const snapshotId = snapshots.get(decodeURIComponent(head[1]));
+      return snapshotId
+        ? new Response(JSON.stringify({ snapshot_id: snapshotId }), { status: 200 })
+        : new Response(JSON.stringify({ error: { status: 404 } }), { status: 404 });
+    }
+
+    const m = /\/playlists\/([^/]+)\/tracks$/.exec(String(input));
+    if (!m || (init?.method !== "PUT" && init?.method !== "POST")) {
+      return new Response(JSON.stringify({ error: { status: 404 } }), { status: 404 });
+    }
+    const playlistId = decodeURIComponent(m[1]);
+    writes.push({ playlistId, uris: JSON.parse(String(init.body)).uris });
+
+    const held = holds.get(playlistId);
+    if (held) {
+      holds.delete(playlistId);
+      await held;
+    }
+    snapshots.set(playlistId, `snap-${writes.length}`);
+    return new Response(JSON.stringify({ snapshot_id: `snap-${writes.length}` }), { status: 200 });
+  });
+
+  const hold = (playlistId: string) => {
+    const gate = deferred();
+    holds.set(playlistId, gate.promise);
+    return gate.resolve;
+  };
+
+  return { fetchImpl, writes, snapshots, hold };
+}
+
+function setup() {
+  const spotify = mock<SpotifyService>();
+  const links = mock<SpotifyPlaylistLinkRepository>();
+  const fake = fakeSpotify();
+
+  const api = new SpotifyApiService();
+  api.apiBase = API_BASE;
+  api.fetchImpl = fake.fetchImpl as typeof fetch;
+  api.sleep = jest.fn(async () => { });
+
+  spotify.ensureAccessToken.mockResolvedValue("token");
+
+  const service = new SpotifyPlaylistService(spotify, api, mock<SpotifyPlayerService>(), mock<TempPlaylistRepository>(), links);
+  return { service, links, ...fake };
+}
+
+const link = (playlistId: string, extra: Record<string, unknown> = {}) => ({
+  _id: new Types.ObjectId(),
+  user: new Types.ObjectId(),
+  playlistId,
+  ...extra,
+}) as any;
+
+const anyone = async () => true;
+
+describe("SpotifyPlaylistService.pushSet", () => {
+
+  it("runs pushes for the same set one after another, in call order", async () => {
+    const { service, links, writes, hold } = setup();
+    const setId = new Types.ObjectId().toString();
+    const l = link("p1");
+    links.findForSet.mockResolvedValue([l]);
+
+    const release = hold("p1");
+    const first = service.pushSet(setId, ["a", "b"], anyone);
+    const second = service.pushSet(setId, ["b"], anyone);
+    await flush();
+
+    // the second push waits for the first write to finish
+    expect(writes).toEqual([{ playlistId: "p1", uris: ["spotify:track:a", "spotify:track:b"] }]);
+
+    release();
+    await Promise.all([first, second]);
+
+    expect(writes.map((w) => w.uris)).toEqual([
+      ["spotify:track:a", "spotify:track:b"],
+      ["spotify:track:b"],
+    ]);
+    expect(links.markSynced.mock.calls.map(([, state]) => state.trackIds)).toEqual([["a", "b"], ["b"]]);
+    expect(links.markSynced).toHaveBeenLastCalledWith(l._id, { snapshotId: "snap-2", trackIds: ["b"] });
+  });
+
+  it("does not hold up pushes for other sets", async () => {
+    const { service, links, writes, hold } = setup();
+    const slowSet = new Types.ObjectId().toString();
+    const otherSet = new Types.ObjectId().toString();
+    links.findForSet.mockImplementation(async (setId) => [link(setId === slowSet ? "slow" : "other")]);
+
+    const release = hold("slow");
+    const slow = service.pushSet(slowSet, ["a"], anyone);
+    await service.pushSet(otherSet, ["z"], anyone);
+
+    expect(writes.map((w) => w.playlistId)).toEqual(["slow", "other"]);
+
+    release();
+    await slow;
+  });
+
+  it("keeps the queue going after a failed push and drops links whose playlist is gone", async () => {
+    const { service, links, writes, fetchImpl } = setup();
+    const setId = new Types.ObjectId().toString();
+    const gone = link("gone");
+    links.findForSet.mockResolvedValueOnce([gone]).mockResolvedValueOnce([link("p1")]);
+    links.deleteById.mockResolvedValue();
+    fetchImpl.mockImplementationOnce(async () => new Response(null, { status: 404 }));
+
+    await Promise.all([service.pushSet(setId, ["a"], anyone), service.pushSet(setId, ["b"], anyone)]);
+
+    expect(links.deleteById).toHaveBeenCalledWith(gone._id);
+    expect(writes).toEqual([{ playlistId: "p1", uris: ["spotify:track:b"] }]);
+  });
+
+  it("pushes over a playlist that still has the snapshot of our last write", async () => {
+    const { service, links, writes, snapshots } = setup();
+    const l = link("p1", { snapshotId: "ours" });
+    links.findForSet.mockResolvedValue([l]);
+    snapshots.set("p1", "ours");
+
+    await service.pushSet(new Types.ObjectId().toString(), ["a"], anyone);
+
+    expect(writes).toEqual([{ playlistId: "p1", uris: ["spotify:track:a"] }]);
+    expect(links.markSynced).toHaveBeenCalledWith(l._id, { snapshotId: "snap-1", trackIds: ["a"] });
+  });
+
+  it("leaves a playlist edited in Spotify alone and flags the link", async () => {
+    const { service, links, writes, snapshots } = setup();
+    const edited = link("edited", { snapshotId: "ours" });
+    const untouched = link("untouched", { snapshotId: "ours-too" });
+    links.findForSet.mockResolvedValue([edited, untouched]);
+    snapshots.set("edited", "theirs").set("untouched", "ours-too");
+
+    await service.pushSet(new Types.ObjectId().toString(), ["a"], anyone);
+
+    expect(writes.map((w) => w.playlistId)).toEqual(["untouched"]);
+    expect(links.markConflicted).toHaveBeenCalledWith(edited._id);
+    expect(links.markSynced).toHaveBeenCalledTimes(1);
+    expect(links.markSynced).toHaveBeenCalledWith(untouched._id, expect.anything());
+  });
+
+  it("skips links whose owner can no longer see the set", async () => {
+    const { service, links, writes } = setup();
+    const member = link("member");
+    const removed = link("removed");
+    links.findForSet.mockResolvedValue([member, removed]);
+    const canView = jest.fn(async (userId: string) => userId === member.user.toString());
+
+    await service.pushSet(new Types.ObjectId().toString(), ["a"], canView);
+
+    expect(canView.mock.calls).toEqual([[member.user.toString()], [removed.user.toString()]]);
+    expect(writes.map((w) => w.playlistId)).toEqual(["member"]);
+    expect(links.markSynced).not.toHaveBeenCalledWith(removed._id, expect.anything());
+  });
+
+});
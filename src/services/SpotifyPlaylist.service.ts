@@ -0,0 +1,408 @@
+import "reflect-metadata";
+import { injectable } from "inversify";
+import SpotifyService from "./Spotify.service";
+import SpotifyApiService from "./SpotifyApi.service";
+import SpotifyPlayerService from "./SpotifyPlayer.service";
+import TempPlaylistRepository from "../repos/TempPlaylist.repository";
+import SpotifyPlaylistLinkRepository from "../repos/SpotifyPlaylistLink.repository";
+
+const TRACKS_PER_REQUEST = 100; // Spotify's limit for POST /playlists/{id}/tracks
+
+export type LinkableSet = {
+  id: string;
+  name: string;
+  description?: string | null;
+  trackIds: string[];
+};
+
+export type SpotifyCollectionRef = { kind: "playlist" | "album"; id: string };
+
+// open.spotify.com/(intl-xx/)playlist/<id>?si=..., spotify:album:<id>, ...
+export function parseSpotifyCollection(source: string): SpotifyCollectionRef | null {
+  const s = source.trim();
+  const uri = /^spotify:(playlist|album):([A-Za-z0-9]{22})$/.exec(s);
+  if (uri) return { kind: uri[1] as SpotifyCollectionRef["kind"], id: uri[2] };
+  try {
+    const url = new URL(s);
+    if (url.hostname !== "open.spotify.com") return null;
+    const m = /^\/(?:intl-[a-z-]+\/)?(playlist|album)\/([A-Za-z0-9]{22})\/?$/.exec(url.pathname);
+    return m ? { kind: m[1] as SpotifyCollectionRef["kind"], id: m[2] } : null;
+  } catch {
+    return null;
+  }
+}
+
+type TrackPage<T> = { next: string | null; items: T[] };
+
+export type QueueOptions = {
+  setId?: string;
+  shareToken?: string;
+  name?: string;
+  playNow?: boolean;
+  deviceId?: string;
+};
+
+// Playlists on the user's Spotify account:
+// - temporary "play this set" playlists; each user has at most one, and queueing another
+//   set unfollows the previous playlist before creating the next
+// - saved sets, kept linked so set edits are pushed and Spotify-side edits can be pulled
+@injectable()
+export default class SpotifyPlaylistService {
+
+  constructor(
+    private spotify: SpotifyService,
+    private api: SpotifyApiService,
+    private player: SpotifyPlayerService,
+    private tempPlaylists: TempPlaylistRepository,
+    private links: SpotifyPlaylistLinkRepository
+  ) { }
+
+  // pushes for the same set run one after another so an older order can't land last
+  private pushQueue = new Map<string, Promise<void>>();
+
+  async createPlaylist(accessToken: string, name: string, description: string, isPublic = false) {
+    const me = await this.api.request<{ id: string }>(accessToken, "GET", "/me");
+    if (!me?.id) throw new Error("Failed to fetch Spotify profile");
+
+    const created = await this.api.request<{ id: string }>(accessToken, "POST", `/users/${encodeURIComponent(me.id)}/playlists`, {
+      name,
+      description,
+      public: isPublic,
+    });
+    if (!created?.id) throw new Error("Create playlist failed");
+    return created.id;
+  }
+
+  // appends in request-sized chunks, preserving order
+  async addTracks(accessToken: string, playlistId: string, trackIds: string[]) {
+    const uris = trackIds.map((id) => `spotify:track:${id}`);
+    for (let i = 0; i < uris.length; i += TRACKS_PER_REQUEST) {
+      await this.api.request(accessToken, "POST", `/playlists/${encodeURIComponent(playlistId)}/tracks`, {
+        uris: uris.slice(i, i + TRACKS_PER_REQUEST),
+      });
+    }
+  }
+
+  // PUT replaces the whole playlist (first 100), the rest is appended. Returns the new snapshot_id.
+  async replaceTracks(accessToken: string, playlistId: string, trackIds: string[]) {
+    const uris = trackIds.map((id) => `spotify:track:${id}`);
+    const path = `/playlists/${encodeURIComponent(playlistId)}/tracks`;
+
+    let res = await this.api.request<{ snapshot_id?: string }>(accessToken, "PUT", path, { uris: uris.slice(0, TRACKS_PER_REQUEST) });
+    for (let i = TRACKS_PER_REQUEST; i < uris.length; i += TRACKS_PER_REQUEST) {
+      res = await this.api.request<{ snapshot_id?: string }>(accessToken, "POST", path, { uris: uris.slice(i, i + TRACKS_PER_REQUEST) });
+    }
+    return res?.snapshot_id ?? null;
+  }
+
+  // Follow `next` links from the first (embedded) page, collecting track ids in order.
+  // Local files and podcast episodes have no usable track id and are skipped.
+  private async collectTrackIds<T>(
+    accessToken: string,
+    first: TrackPage<T> | null | undefined,
+    trackOf: (item: T) => { id: string | null; type?: string } | null | undefined,
+    max = Infinity
+  ) {
+    const trackIds: string[] = [];
+    let page = first ?? null;
+    while (page && trackIds.length < max) {
+      for (const item of page.items ?? []) {
+        const track = trackOf(item);
+        if (track?.id && (track.type ?? "track") === "track") trackIds.push(track.id);
+      }
+      page = page.next ? await this.api.request<TrackPage<T>>(accessToken, "GET", this.api.pathOf(page.next)) : null;
+    }
+    return trackIds.slice(0, max);
+  }
+
+  // current snapshot and track order
+  async getPlaylistTracks(accessToken: string, playlistId: string) {
+    type Item = { track: { id: string | null; type?: string } | null };
+
+    const head = await this.api.request<{ snapshot_id: string; tracks: TrackPage<Item> }>(
+      accessToken,
+      "GET",
+      `/playlists/${encodeURIComponent(playlistId)}?fields=${encodeURIComponent("snapshot_id,tracks(next,items(track(id,type)))")}`
+    );
+    if (!head) throw new Error("Playlist not found");
+
+    const trackIds = await this.collectTrackIds(accessToken, head.tracks, (item) => item.track);
+    return { snapshotId: head.snapshot_id, trackIds };
+  }
+
+  // just the snapshot_id, to tell whether the playlist changed since our last write
+  async getSnapshotId(accessToken: string, playlistId: string) {
+    const head = await this.api.request<{ snapshot_id: string }>(
+      accessToken,
+      "GET",
+      `/playlists/${encodeURIComponent(playlistId)}?fields=snapshot_id`
+    );
+    if (!head) throw new Error("Playlist not found");
+    return head.snapshot_id;
+  }
+
+  // Name, description, cover images and every track id (up to `max`) of a playlist or album
+  async getCollection(accessToken: string, ref: SpotifyCollectionRef, max = Infinity) {
+    type Image = { url: string };
+    type Track = { id: string | null; type?: string };
+
+    if (ref.kind === "playlist") {
+      const head = await this.api.request<{ name: string; description?: string | null; images?: Image[] | null; tracks: TrackPage<{ track: Track | null }> }>(
+        accessToken,
+        "GET",
+        `/playlists/${encodeURIComponent(ref.id)}?fields=${encodeURIComponent("name,description,images(url),tracks(total,next,items(track(id,type)))")}`
+      );
+      if (!head) throw new Error("Playlist not found");
+      return {
+        ...ref,
+        name: head.name,
+        // playlist descriptions come back HTML-escaped with links as <a> tags
+        description: SpotifyPlaylistService.plainText(head.description ?? ""),
+        images: (head.images ?? []).map((i) => i.url),
+        trackIds: await this.collectTrackIds(accessToken, head.tracks, (item) => item.track, max),
+      };
+    }
+
+    const album = await this.api.request<{ name: string; artists?: { name: string }[]; images?: Image[]; tracks: TrackPage<Track> }>(
+      accessToken,
+      "GET",
+      `/albums/${encodeURIComponent(ref.id)}`
+    );
+    if (!album) throw new Error("Album not found");
+    const artists = (album.artists ?? []).map((a) => a.name).join(", ");
+    return {
+      ...ref,
+      name: album.name,
+      description: artists ? `Album by ${artists}` : "",
+      images: (album.images ?? []).map((i) => i.url),
+      trackIds: await this.collectTrackIds(accessToken, album.tracks, (item) => item, max),
+    };
+  }
+
+  private static plainText(html: string) {
+    return html
+      .replace(/<[^>]*>/g, "")
+      .replace(/&quot;/g, "\"")
+      .replace(/&#x27;|&#39;/g, "'")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&amp;/g, "&")
+      .trim();
+  }
+
+  // Spotify has no playlist delete; unfollowing removes it from the user's library
+  async unfollowPlaylist(accessToken: string, playlistId: string) {
+    await this.api.request(accessToken, "DELETE", `/playlists/${encodeURIComponent(playlistId)}/followers`);
+  }
+
+  // best-effort: a failed cleanup should never block queueing or deleting a set
+  private async dropPrevious(userId: string, accessToken: string) {
+    try {
+      const prev = await this.tempPlaylists.delete(userId);
+      if (prev?.playlistId) await this.unfollowPlaylist(accessToken, prev.playlistId);
+    } catch (e) {
+      console.warn("Failed to remove previous temp playlist", userId, e);
+    }
+  }
+
+  // Replace the user's temp playlist with `trackIds` (in order) and optionally start it
+  async queueTracks(userId: string, trackIds: string[], opts: QueueOptions = {}) {
+    if (!trackIds.length) throw new Error("No tracks to queue");
+
+    const accessToken = await this.spotify.ensureAccessToken(userId);
+    await this.dropPrevious(userId, accessToken);
+
+    const name = opts.name || `Temp Set ${new Date().toISOString().slice(0, 19).replace("T", " ")}`;
+    const playlistId = await this.createPlaylist(accessToken, name, "Temporary playlist created by Gooodvibez");
+
+    try {
+      await this.addTracks(accessToken, playlistId, trackIds);
+    } catch (err) {
+      await this.unfollowPlaylist(accessToken, playlistId).catch(() => undefined);
+      throw err;
+    }
+
+    try {
+      await this.tempPlaylists.save(userId, { playlistId, setId: opts.setId, shareToken: opts.shareToken, trackIds });
+    } catch (e) {
+      console.warn("Failed to persist temp playlist pointer", e);
+    }
+
+    // playlists play in order; make sure a leftover shuffle doesn't scramble the set
+    await this.player.shuffle(userId, false, opts.deviceId).catch(() => undefined);
+
+    if (opts.playNow) {
+      try {
+        await this.player.play(userId, { context: `spotify:playlist:${playlistId}`, deviceId: opts.deviceId });
+      } catch (e: any) {
+        e.playlistId = playlistId;
+        throw e;
+      }
+    }
+
+    return { ok: true, playlistId, total: trackIds.length, deviceId: opts.deviceId ?? null };
+  }
+
+  // ---- Saved (linked) playlists ----
+
+  private static playlistUrl(playlistId: string) {
+    return `https://open.spotify.com/playlist/${playlistId}`;
+  }
+
+  // Save a set to the user's library. Saving again re-pushes into the same playlist,
+  // unless it no longer exists on Spotify, in which case a new one is made.
+  async saveSet(userId: string, set: LinkableSet, opts: { name?: string; public?: boolean } = {}) {
+    const accessToken = await this.spotify.ensureAccessToken(userId);
+    const existing = await this.links.find(userId, set.id);
+
+    if (existing) {
+      try {
+        const snapshotId = await this.replaceTracks(accessToken, existing.playlistId, set.trackIds);
+        await this.links.markSynced(existing._id, { snapshotId, trackIds: set.trackIds });
+        return { playlistId: existing.playlistId, url: SpotifyPlaylistService.playlistUrl(existing.playlistId), created: false };
+      } catch (err: any) {
+        if (err?.status !== 404) throw err;
+      }
+    }
+
+    const description = (set.description || "Saved from Gooodvibez").slice(0, 300);
+    const playlistId = await this.createPlaylist(accessToken, opts.name || set.name, description, !!opts.public);
+    let snapshotId: string | null;
+    try {
+      snapshotId = await this.replaceTracks(accessToken, playlistId, set.trackIds);
+    } catch (err) {
+      await this.unfollowPlaylist(accessToken, playlistId).catch(() => undefined);
+      throw err;
+    }
+    await this.links.upsert(userId, set.id, playlistId, { snapshotId, trackIds: set.trackIds });
+
+    return { playlistId, url: SpotifyPlaylistService.playlistUrl(playlistId), created: true };
+  }
+
+  // Push the set's order to every linked playlist, each with its owner's token.
+  // Best-effort; playlists that are gone on Spotify lose their link. `canView` is asked
+  // per link owner when the push runs, since access can be lost after saving.
+  pushSet(setId: string, trackIds: string[], canView: (userId: string) => Promise<boolean>) {
+    const prev = this.pushQueue.get(setId) ?? Promise.resolve();
+    const next = prev.then(() => this.pushToLinks(setId, trackIds, canView));
+    this.pushQueue.set(setId, next);
+    next.finally(() => {
+      if (this.pushQueue.get(setId) === next) this.pushQueue.delete(setId);
+    });
+    return next;
+  }
+
+  private async pushToLinks(setId: string, trackIds: string[], canView: (userId: string) => Promise<boolean>) {
+    let links;
+    try {
+      links = await this.links.findForSet(setId);
+    } catch (e) {
+      console.warn("Failed to load Spotify playlist links", setId, e);
+      return;
+    }
+
+    for (const link of links) {
+      try {
+        const userId = link.user.toString();
+        if (!(await canView(userId))) continue;
+
+        const accessToken = await this.spotify.ensureAccessToken(userId);
+        // Edited in Spotify since our last write: keep their edits and flag the link until
+        // they adopt them (sync) or save the set again. Spotify can't make the replace
+        // itself conditional, so this narrows the window rather than closing it.
+        if (link.snapshotId && (await this.getSnapshotId(accessToken, link.playlistId)) !== link.snapshotId) {
+          await this.links.markConflicted(link._id);
+          continue;
+        }
+        const snapshotId = await this.replaceTracks(accessToken, link.playlistId, trackIds);
+        await this.links.markSynced(link._id, { snapshotId, trackIds });
+      } catch (e: any) {
+        if (e?.status === 404) {
+          await this.links.deleteById(link._id).catch(() => undefined);
+        } else {
+          console.warn("Failed to push set to Spotify playlist", setId, link.playlistId, e?.message ?? e);
+        }
+      }
+    }
+  }
+
+  // What the linked playlist looks like on Spotify right now, plus what we last pushed
+  async readLinked(userId: string, setId: string) {
+    const link = await this.links.find(userId, setId);
+    if (!link) throw new Error("Set is not linked to Spotify");
+
+    const accessToken = await this.spotify.ensureAccessToken(userId);
+    let remote;
+    try {
+      remote = await this.getPlaylistTracks(accessToken, link.playlistId);
+    } catch (err: any) {
+      if (err?.status === 404) {
+        await this.links.deleteById(link._id);
+        throw new Error("Linked playlist no longer exists");
+      }
+      throw err;
+    }
+
+    return {
+      playlistId: link.playlistId,
+      url: SpotifyPlaylistService.playlistUrl(link.playlistId),
+      // a new snapshot_id means the playlist was edited outside the app since our last write
+      changedInSpotify: !!link.snapshotId && link.snapshotId !== remote.snapshotId,
+      // set pushes are skipped while the Spotify edits are unresolved
+      conflictedAt: link.conflictedAt ?? null,
+      lastPushed: link.trackIds ?? [],
+      syncedAt: link.syncedAt ?? null,
+      remote,
+    };
+  }
+
+  // The set now matches the playlist as it is on Spotify, so pushes may write to it again
+  async markInSync(userId: string, setId: string, remote: { snapshotId: string; trackIds: string[] }) {
+    const link = await this.links.find(userId, setId);
+    if (link) await this.links.markSynced(link._id, remote);
+  }
+
+  // Forget the link; with `unfollow` the playlist is also removed from the user's library
+  async unlink(userId: string, setId: string, unfollow = false) {
+    const link = await this.links.delete(userId, setId);
+    if (!link) throw new Error("Set is not linked to Spotify");
+
+    if (unfollow) {
+      try {
+        const accessToken = await this.spotify.ensureAccessToken(userId);
+        await this.unfollowPlaylist(accessToken, link.playlistId);
+      } catch (e) {
+        console.warn("Failed to unfollow unlinked playlist", link.playlistId, e);
+      }
+    }
+    return { ok: true, setId, playlistId: link.playlistId, unfollowed: unfollow };
+  }
+
+  // purged sets keep their Spotify playlists, just not the link
+  async forgetLinksForSet(setId: string) {
+    try {
+      await this.links.deleteForSet(setId);
+    } catch (e) {
+      console.warn("Failed to delete Spotify playlist links for set", setId, e);
+    }
+  }
+
+  // A deleted set's temp playlists would keep pointing at a set that's gone; drop the
+  // pointers and unfollow the playlists (best-effort, per user token).
+  async releaseForSet(setId: string) {
+    try {
+      const removed = await this.tempPlaylists.deleteForSet(setId);
+      for (const { userId, pointer } of removed) {
+        try {
+          const accessToken = await this.spotify.ensureAccessToken(userId);
+          await this.unfollowPlaylist(accessToken, pointer.playlistId);
+        } catch (e) {
+          console.warn("Failed to remove temp playlist for deleted set", setId, userId, e);
+        }
+      }
+    } catch (e) {
+      console.warn("Failed to release temp playlists for set", setId, e);
+    }
+  }
+
+}
@@ -44,6 +44,21 @@ function mapTrack(t: NonNullable<SpotifyTrack>): Omit<TrackCacheDoc, "updatedAt"
 
 @injectable()
 export default class TrackCacheService {
+  // cache-only lookup (never calls Spotify, so it works without a viewer token); stale entries are fine here
+  async getCached(ids: string[]) {
+    const docs = await TrackCache.find({ trackId: { $in: Array.from(new Set(ids)) } }).lean<TrackCacheDoc[]>().exec();
+    return new Map(docs.map(d => [d.trackId, d]));
+  }
+
+  // $text search over cached track names/artists/albums, ranked by textScore
+  async search(q: string, limit: number) {
+    return TrackCache.find({ $text: { $search: q } }, { score: { $meta: "textScore" } })
+      .sort({ score: { $meta: "textScore" } })
+      .limit(limit)
+      .lean<(TrackCacheDoc & { score: number })[]>()
+      .exec();
+  }
+
   async getManyWithHydrate(accessToken: string, ids: string[]) {
     // 1) de-dupe but preserve original order in final mapping
     const unique = Array.from(new Set(ids));
@@ -4,14 +4,24 @@ import { SignupInput } from "../interfaces/signup.interface"
 import { VerifiedProfile } from "../interfaces/verifiedProfile.interface"
 import bcrypt from "bcryptjs"
 import UserRepository from "../repos/User.repository"
+import OneTimeTokenRepository from "../repos/OneTimeToken.repository"
 import AuthTokenService from "./AuthToken.service"
 import EmailService from "./Email.service"
+import SessionService from "./Session.service"
+
+const PASSWORD_RESET_TTL_SECONDS = 60 * 60; // 1 hour
+
+// X doesn't share emails, so X sign-ups start with x_<id>@example.invalid
+export function isPlaceholderEmail(email?: string | null) {
+  return !email || email.endsWith("@example.invalid");
+}
 
 @injectable()
 export default class UserService {
 
   // userRepository property is a dependency
-  constructor(public readonly users: UserRepository, private tokens: AuthTokenService, private email: EmailService) { }
+  constructor(public readonly users: UserRepository, private tokens: AuthTokenService, private email: EmailService,
+    private oneTimeTokens: OneTimeTokenRepository, private sessions: SessionService) { }
 
   async register(input: SignupInput) {
     // uniqueness checks
@@ -37,14 +47,7 @@ export default class UserService {
       emailVerified: false
     });
 
-    // build verify link
-    const verifyToken = this.tokens.makeEmailVerifyToken(user._id.toString());
-    const appOrigin = process.env.APP_ORIGIN || "http://localhost:3001";
-    // You can point directly to your API endpoint and redirect to frontend after success.
-    const link = `${appOrigin}/api/user/auth/verify-email?token=${verifyToken}`;
-
-    // send email
-    await this.email.sendVerificationEmail(user.email, link)
+    await this.sendVerification(user._id.toString(), user.email);
 
     // Return a 202-style payload hinting next step — no session token yet.
     return {
@@ -61,10 +64,123 @@ export default class UserService {
     };
   }
 
+  // ---- Passwords ----
+
+  // Always resolves the same way so the response doesn't reveal which emails have accounts.
+  // Social-only accounts get a "set a password" link through the same flow.
+  async requestPasswordReset(email: string) {
+    const user = await this.users.findByEmail(email.toLowerCase());
+    // placeholder addresses of X-only accounts can't receive mail
+    if (!user || isPlaceholderEmail(user.email)) return;
+
+    const token = await this.oneTimeTokens.issue("password_reset", { userId: user._id.toString(), email: user.email }, PASSWORD_RESET_TTL_SECONDS);
+    const appOrigin = process.env.APP_ORIGIN || "http://localhost:3000";
+    const link = `${appOrigin}/reset-password?token=${encodeURIComponent(token)}`;
+
+    await this.email.sendPasswordResetEmail(user.email, link, !user.passwordHash);
+  }
+
+  // Using the emailed link proves the address it was sent to, so it also verifies the
+  // account's email, but only if that is still the address on file. Every session is
+  // signed out: whoever had the old password shouldn't stay in.
+  async resetPassword(token: string, password: string) {
+    const claim = await this.oneTimeTokens.consume("password_reset", token);
+    if (!claim) throw new Error("Invalid or expired token");
+    const { userId } = claim;
+
+    const user = await this.users.findById(userId);
+    if (!user) throw new Error("Invalid or expired token");
+
+    const provesEmail = !!claim.email && claim.email.toLowerCase() === user.email.toLowerCase();
+    const passwordHash = await bcrypt.hash(password, 12);
+    await this.users.updateById(userId, {
+      passwordHash,
+      ...(provesEmail && !user.emailVerified ? { emailVerified: true, emailVerifiedAt: new Date() } : {}),
+    });
+    const { revoked } = await this.sessions.revokeAll(userId);
+
+    return { ok: true, sessionsRevoked: revoked };
+  }
+
+  // Needs the current password unless the account has none yet (social sign-in), in which
+  // case this sets the first one. The caller's session stays; all others are signed out.
+  async changePassword(userId: string, currentSid: string, input: { currentPassword?: string; newPassword: string }) {
+    const user = await this.users.findById(userId);
+    if (!user) throw new Error("User not found");
+
+    if (user.passwordHash) {
+      if (!input.currentPassword) throw new Error("Current password is required");
+      const ok = await bcrypt.compare(input.currentPassword, user.passwordHash);
+      if (!ok) throw new Error("Current password is incorrect");
+    }
+
+    const passwordHash = await bcrypt.hash(input.newPassword, 12);
+    await this.users.updateById(userId, { passwordHash });
+    // an outstanding reset link would undo this
+    await this.oneTimeTokens.revokeForUser("password_reset", userId);
+    const { revoked } = await this.sessions.revokeAll(userId, currentSid);
+
+    return { ok: true, passwordSet: !user.passwordHash, sessionsRevoked: revoked };
+  }
+
+  // ---- Email verification ----
+
+  private async sendVerification(userId: string, email: string) {
+    // build verify link
+    const verifyToken = this.tokens.makeEmailVerifyToken(userId, email);
+    const appOrigin = process.env.APP_ORIGIN || "http://localhost:3001";
+    // You can point directly to your API endpoint and redirect to frontend after success.
+    const link = `${appOrigin}/api/user/auth/verify-email?token=${verifyToken}`;
+
+    // send email
+    await this.email.sendVerificationEmail(email, link)
+  }
+
+  // An unverified account (typically X, with a placeholder address) supplies a real email;
+  // it only becomes verified once the emailed link is opened. Links sent to an earlier
+  // address stop working, and the address is never used to link provider sign-ins.
+  async setEmailForVerification(userId: string, email: string) {
+    const user = await this.users.findById(userId);
+    if (!user) throw new Error("User not found");
+    if (user.emailVerified) throw new Error("Email already verified");
+
+    const normalized = email.toLowerCase();
+    const owner = await this.users.findByEmail(normalized);
+    if (owner && owner._id.toString() !== userId) throw new Error("Email already in use");
+
+    await this.users.updateById(userId, { email: normalized, emailSource: "set_email" });
+    // a reset link sent to the previous address must not work for this account any more
+    await this.oneTimeTokens.revokeForUser("password_reset", userId);
+    await this.sendVerification(userId, normalized);
+    return { ok: true, email: normalized, next: "Check your email for a verification link." };
+  }
+
+  async resendVerification(userId: string) {
+    const user = await this.users.findById(userId);
+    if (!user) throw new Error("User not found");
+    if (user.emailVerified) throw new Error("Email already verified");
+    if (isPlaceholderEmail(user.email)) throw new Error("No email on file");
+
+    await this.sendVerification(userId, user.email);
+    return { ok: true, email: user.email };
+  }
+
+  // For password sign-ups that can't sign in yet. Silent when there's nothing to send,
+  // so the response doesn't reveal which emails have accounts.
+  async resendVerificationByEmail(email: string) {
+    const user = await this.users.findByEmail(email.toLowerCase());
+    if (!user || user.emailVerified) return;
+    await this.sendVerification(user._id.toString(), user.email);
+  }
+
   async setSpotifyUserId(appUserId: string, spotifyUserId: string) {
     await this.users.updateById(appUserId, { spotifyUserId });
   }
 
+  async clearSpotifyUserId(appUserId: string) {
+    await this.users.updateById(appUserId, { spotifyUserId: null });
+  }
+
   async ensureSpotifyId(appUserId: string, spotifyUserId: string) {
     const u = await this.users.findById(appUserId);
 
@@ -0,0 +1,50 @@
+// src/utils/sse.ts
+import { Response } from "express";
+
+const HEARTBEAT_MS = 25_000;
+
+// Server-Sent Events on an Express response. Headers go out with the first event, so a
+// failure before that (not found, forbidden) can still be answered as JSON. Events named
+// in `endOn` are the last thing the stream sends.
+export function eventStream(res: Response, endOn: string[] = []) {
+  // listen from the start: the client may go away while the subscription is being set up
+  let closed = false;
+  let stop: (() => void) | undefined;
+  res.on("close", () => {
+    closed = true;
+    stop?.();
+  });
+
+  const send = (event: string, data: unknown) => {
+    if (res.writableEnded) return;
+    if (!res.headersSent) {
+      res.status(200);
+      res.setHeader("Content-Type", "text/event-stream");
+      res.setHeader("Cache-Control", "no-cache, no-transform");
+      res.setHeader("Connection", "keep-alive");
+      // stop proxies (nginx) from buffering the stream
+      res.setHeader("X-Accel-Buffering", "no");
+    }
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    if (endOn.includes(event)) res.end();
+  };
+
+  // keep idle connections open through proxies; drop the subscription when the client goes
+  const keepAlive = (unsubscribe: () => Promise<void>) => {
+    // already closed by the client, or ended by an `endOn` event, before we got here
+    if (closed || res.writableEnded) {
+      unsubscribe().catch(() => undefined);
+      return;
+    }
+    const heartbeat = setInterval(() => {
+      if (!res.writableEnded) res.write(": ping\n\n");
+    }, HEARTBEAT_MS);
+    stop = () => {
+      stop = undefined;
+      clearInterval(heartbeat);
+      unsubscribe().catch(() => undefined);
+    };
+  };
+
+  return { send, keepAlive };
+}
@@ -0,0 +1,89 @@
+// src/utils/tokenCipher.ts
+import crypto from "crypto";
+
+// AES-256-GCM for secrets at rest (Spotify tokens in Redis).
+//
+// TOKEN_ENCRYPTION_KEYS="<id>:<base64 32-byte key>,<id>:<key>,..." — the first key encrypts,
+// every listed key can decrypt. To rotate, put a new key first and keep the old one listed
+// until stored values have been rewritten (reads re-encrypt anything not under the first key).
+// Generate a key with: node -e "console.log(require('crypto').randomBytes(32).toString('base64'))"
+//
+// Stored format: v1:<keyId>:<iv>:<tag>:<ciphertext>, all base64url.
+
+const VERSION = "v1";
+
+type Keyring = { current: string; keys: Map<string, Buffer> };
+
+let keyring: Keyring | null | undefined;
+let warnedPlaintext = false;
+
+function loadKeyring(): Keyring | null {
+  const raw = process.env.TOKEN_ENCRYPTION_KEYS?.trim();
+  if (!raw) return null;
+
+  const keys = new Map<string, Buffer>();
+  for (const entry of raw.split(",").map(e => e.trim()).filter(Boolean)) {
+    const sep = entry.indexOf(":");
+    const id = entry.slice(0, sep);
+    const key = Buffer.from(entry.slice(sep + 1), "base64");
+    if (sep <= 0 || !/^[A-Za-z0-9_-]+$/.test(id)) throw new Error("TOKEN_ENCRYPTION_KEYS entries must look like <id>:<base64 key>");
+    if (key.length !== 32) throw new Error(`TOKEN_ENCRYPTION_KEYS key "${id}" must be 32 bytes`);
+    if (keys.has(id)) throw new Error(`TOKEN_ENCRYPTION_KEYS lists "${id}" twice`);
+    keys.set(id, key);
+  }
+  if (!keys.size) return null;
+  return { current: keys.keys().next().value!, keys };
+}
+
+// env is read on first use so it's loaded by then
+function getKeyring() {
+  if (keyring === undefined) {
+    keyring = loadKeyring();
+    if (!keyring && process.env.NODE_ENV === "production") {
+      throw new Error("TOKEN_ENCRYPTION_KEYS must be set in production");
+    }
+  }
+  return keyring;
+}
+
+export function isEncrypted(stored: string) {
+  return stored.startsWith(`${VERSION}:`);
+}
+
+// `context` (e.g. the user id) is bound in as associated data, so a value copied under
+// another user's key won't decrypt. Without keys (local dev only) values stay plaintext.
+export function encryptToken(plaintext: string, context: string) {
+  const ring = getKeyring();
+  if (!ring) {
+    if (!warnedPlaintext) {
+      console.warn("TOKEN_ENCRYPTION_KEYS not set; storing tokens unencrypted");
+      warnedPlaintext = true;
+    }
+    return plaintext;
+  }
+
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", ring.keys.get(ring.current)!, iv);
+  cipher.setAAD(Buffer.from(context));
+  const data = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [VERSION, ring.current, iv.toString("base64url"), tag.toString("base64url"), data.toString("base64url")].join(":");
+}
+
+// `stale` means the value should be written back: it's plaintext or under an older key.
+// Throws when the key is unknown or the value was tampered with.
+export function decryptToken(stored: string, context: string): { plaintext: string; stale: boolean } {
+  const ring = getKeyring();
+  if (!isEncrypted(stored)) return { plaintext: stored, stale: !!ring };
+  if (!ring) throw new Error("Encrypted token found but TOKEN_ENCRYPTION_KEYS is not set");
+
+  const [, keyId, iv, tag, data] = stored.split(":");
+  const key = ring.keys.get(keyId);
+  if (!key) throw new Error(`Unknown token encryption key "${keyId}"`);
+
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, Buffer.from(iv, "base64url"));
+  decipher.setAAD(Buffer.from(context));
+  decipher.setAuthTag(Buffer.from(tag, "base64url"));
+  const plaintext = Buffer.concat([decipher.update(Buffer.from(data, "base64url")), decipher.final()]).toString("utf8");
+  return { plaintext, stale: keyId !== ring.current };
+}